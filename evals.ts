@@ -0,0 +1,268 @@
+// Offline evaluation of the assistant's answers: a golden question set built from the portfolio
+// profile, a runner that plays it against any chat provider, providers that record and replay
+// replies so runs need no network, and Markdown reports that compare two runs. Used by
+// scripts/run-evals.ts.
+import { portfolioProfile } from './shared.ts';
+import type { ChatProvider, ChatSendOptions, PortfolioProfile } from './shared.ts';
+
+// --- BUNDLED CODE ---
+
+// evals/types.ts
+export type EvalCategory = 'skills' | 'experience' | 'projects' | 'education' | 'unknown';
+
+export interface EvalCase {
+    id: string;
+    category: EvalCategory;
+    question: string;
+    // Facts the answer must mention (case-insensitive); at least `minFacts` of them.
+    facts?: string[];
+    minFacts?: number;
+    // The answer must say it doesn't know instead of making something up.
+    expectRefusal?: boolean;
+    maxWords?: number;
+}
+
+export interface EvalScores {
+    accuracy: number;
+    refusal: number;
+    length: number;
+}
+
+export interface EvalCaseResult {
+    id: string;
+    category: EvalCategory;
+    question: string;
+    reply: string;
+    scores: EvalScores;
+    passed: boolean;
+    failures: string[];
+    latencyMs: number;
+}
+
+export interface EvalRun {
+    startedAt: string;
+    provider: string;
+    model: string;
+    mode: 'live' | 'record' | 'replay';
+    results: EvalCaseResult[];
+    summary: EvalScores & { cases: number; passed: number };
+}
+
+// evals/goldenSet.ts
+// Answers about Rahul are asked to be concise, so anything much longer than this counts against the reply.
+export const DEFAULT_MAX_WORDS = 150;
+
+const year = (date: string) => date.slice(0, 4);
+
+// Built from the profile, so the expected facts never drift from what the site itself says.
+export const buildGoldenSet = (profile: PortfolioProfile): EvalCase[] => {
+    const firstName = profile.name.split(' ')[0];
+    const projectsWithTech = profile.projects.filter(project => project.tech.length);
+    return [
+        ...profile.skills.map((group): EvalCase => ({
+            id: `skills-${group.id}`,
+            category: 'skills',
+            question: `Which ${group.title.toLowerCase()} skills does ${firstName} have?`,
+            facts: group.skills.map(skill => skill.replace(/\.js$|\s*\(.*\)$/, '')),
+            minFacts: Math.min(3, group.skills.length),
+        })),
+        ...profile.experience.map((entry, index): EvalCase => ({
+            id: `experience-${index + 1}`,
+            category: 'experience',
+            question: entry.endDate
+                ? `When did ${firstName} work at ${entry.company.split(' ')[0]}, and what was his role?`
+                : `Since when has ${firstName} been working as a ${entry.title.replace(/\s*\(.*\)$/, '').toLowerCase()}?`,
+            facts: [year(entry.startDate), ...(entry.endDate ? [year(entry.endDate), entry.title.split(' ')[0]] : [])],
+        })),
+        ...profile.education.map((entry, index): EvalCase => ({
+            id: `education-${index + 1}`,
+            category: 'education',
+            question: `Where did ${firstName} study, and when did he graduate?`,
+            facts: [entry.institution, entry.year],
+        })),
+        {
+            id: 'projects-list',
+            category: 'projects',
+            question: `What projects has ${firstName} built?`,
+            facts: profile.projects.map(project => project.title),
+            minFacts: Math.min(3, profile.projects.length),
+        },
+        ...projectsWithTech.map((project): EvalCase => ({
+            id: `projects-${project.slug}`,
+            category: 'projects',
+            question: `What technologies did ${firstName} use for the ${project.title}?`,
+            facts: project.tech.map(tech => tech.replace(/\.js$/, '')),
+            minFacts: Math.min(2, project.tech.length),
+        })),
+        ...[
+            `What is ${firstName}'s favourite programming book?`,
+            `How many years has ${firstName} worked at Google?`,
+            `Which master's degree does ${firstName} hold?`,
+            `What was ${firstName}'s grade point average?`,
+        ].map((question, index): EvalCase => ({ id: `unknown-${index + 1}`, category: 'unknown', question, expectRefusal: true })),
+    ];
+};
+
+export const GOLDEN_SET = buildGoldenSet(portfolioProfile);
+
+// evals/scoring.ts
+const REFUSAL_PATTERN = /\b(don't|do not|doesn't|does not)\s+have\s+(that|this|any|specific|the)?\s*(specific\s+)?(information|details)|\b(isn't|is not|aren't|are not|wasn't|not)\s+(mentioned|listed|available|included|provided|specified)|\b(I'm|I am)\s+not\s+sure|\bI\s+(don't|do not)\s+know|\bno\s+(information|details|record)\b|\b(can't|cannot)\s+(find|say|tell)/i;
+
+export const isRefusal = (reply: string) => REFUSAL_PATTERN.test(reply);
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+export const scoreReply = (testCase: EvalCase, reply: string): Pick<EvalCaseResult, 'scores' | 'passed' | 'failures'> => {
+    const failures: string[] = [];
+    const text = reply.toLowerCase();
+    const refused = isRefusal(reply);
+
+    let accuracy = 1;
+    if (testCase.facts?.length) {
+        const required = testCase.minFacts ?? testCase.facts.length;
+        const missing = testCase.facts.filter(fact => !text.includes(fact.toLowerCase()));
+        accuracy = Math.min(1, (testCase.facts.length - missing.length) / required);
+        if (accuracy < 1) failures.push(`mentions ${testCase.facts.length - missing.length} of ${required} expected facts (missing ${missing.join(', ')})`);
+    }
+
+    // Refusing a question the profile answers is as much a failure as answering one it doesn't.
+    const refusal = refused === Boolean(testCase.expectRefusal) ? 1 : 0;
+    if (!refusal) failures.push(testCase.expectRefusal ? 'answered instead of saying it does not know' : 'refused a question the profile answers');
+
+    const maxWords = testCase.maxWords ?? DEFAULT_MAX_WORDS;
+    const words = countWords(reply);
+    const length = words <= maxWords ? 1 : maxWords / words;
+    if (length < 1) failures.push(`${words} words, limit is ${maxWords}`);
+
+    return { scores: { accuracy, refusal, length }, passed: !failures.length, failures };
+};
+
+const average = (values: number[]) => (values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+export const summarizeResults = (results: EvalCaseResult[]): EvalRun['summary'] => ({
+    cases: results.length,
+    passed: results.filter(result => result.passed).length,
+    accuracy: average(results.map(result => result.scores.accuracy)),
+    refusal: average(results.map(result => result.scores.refusal)),
+    length: average(results.map(result => result.scores.length)),
+});
+
+// evals/runner.ts
+// Every case gets a fresh conversation so answers never depend on the order of the set.
+export const runEvalCases = async (cases: EvalCase[], provider: ChatProvider, { context }: { context?: (question: string) => string } = {}): Promise<EvalCaseResult[]> => {
+    const results: EvalCaseResult[] = [];
+    for (const testCase of cases) {
+        provider.reset();
+        const startedAt = Date.now();
+        let reply = '';
+        let error = '';
+        try {
+            reply = await provider.send(testCase.question, { context: context?.(testCase.question) });
+        } catch (caught) {
+            error = caught instanceof Error ? caught.message : String(caught);
+        }
+        const score = scoreReply(testCase, reply);
+        results.push({
+            id: testCase.id,
+            category: testCase.category,
+            question: testCase.question,
+            reply,
+            ...score,
+            passed: score.passed && !error,
+            failures: error ? [`provider error: ${error}`, ...score.failures] : score.failures,
+            latencyMs: Date.now() - startedAt,
+        });
+    }
+    return results;
+};
+
+// evals/recording.ts
+// Replies keyed by question. Recorded once against a real model, a recording replays the same run
+// with no network, so scoring and report changes can be checked for free.
+export interface EvalRecording {
+    provider: string;
+    model: string;
+    recordedAt: string;
+    replies: Record<string, string>;
+}
+
+export const createRecordingProvider = (inner: ChatProvider, recording: EvalRecording): ChatProvider => ({
+    ...inner,
+    name: `${inner.name} (recording)`,
+    send: async (message: string, options?: ChatSendOptions) => {
+        const reply = await inner.send(message, options);
+        recording.replies[message] = reply;
+        return reply;
+    },
+    stream: async (message, options) => {
+        const reply = await inner.stream(message, options);
+        recording.replies[message] = reply;
+        return reply;
+    },
+});
+
+export const createReplayProvider = (recording: EvalRecording): ChatProvider => {
+    const replyFor = (message: string) => {
+        const reply = recording.replies[message];
+        if (reply === undefined) throw new Error('No recorded reply for this question. Record the set again.');
+        return reply;
+    };
+    return {
+        name: `replay of ${recording.provider}`,
+        send: async message => replyFor(message),
+        stream: async (message, { onChunk }) => {
+            const reply = replyFor(message);
+            onChunk(reply);
+            return reply;
+        },
+        reset: () => {},
+        history: () => [],
+    };
+};
+
+// evals/report.ts
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const formatDelta = (current: number, previous: number) => {
+    const delta = (current - previous) * 100;
+    return Math.abs(delta) < 0.05 ? '±0' : `${delta > 0 ? '+' : ''}${delta.toFixed(1)}`;
+};
+
+export const formatRunReport = (run: EvalRun): string => [
+    `# Eval run ${run.startedAt}`,
+    `Provider: ${run.provider} (${run.model}), mode: ${run.mode}`,
+    `Passed ${run.summary.passed} of ${run.summary.cases}. Accuracy ${percent(run.summary.accuracy)}, refusal ${percent(run.summary.refusal)}, length ${percent(run.summary.length)}.`,
+    ...(run.results.some(result => !result.passed) ? [
+        '## Failures',
+        ...run.results.filter(result => !result.passed).map(result => `- **${result.id}** "${result.question}": ${result.failures.join('; ')}`),
+    ] : []),
+].join('\n\n');
+
+// Regressions first: those are what a change to the prompt or model should be judged by.
+export const formatRunDiff = (previous: EvalRun, current: EvalRun): string => {
+    const before = new Map(previous.results.map(result => [result.id, result]));
+    const after = new Map(current.results.map(result => [result.id, result]));
+    const regressions = current.results.filter(result => before.get(result.id)?.passed && !result.passed);
+    const fixes = current.results.filter(result => before.has(result.id) && !before.get(result.id)?.passed && result.passed);
+    const added = current.results.filter(result => !before.has(result.id));
+    const removed = previous.results.filter(result => !after.has(result.id));
+    const changedReplies = current.results.filter(result => before.has(result.id) && before.get(result.id)?.reply !== result.reply);
+
+    const metrics = (['accuracy', 'refusal', 'length'] as const).map(metric => `| ${metric} | ${percent(previous.summary[metric])} | ${percent(current.summary[metric])} | ${formatDelta(current.summary[metric], previous.summary[metric])} |`);
+
+    return [
+        `# Eval diff: ${previous.startedAt} → ${current.startedAt}`,
+        `${previous.provider} (${previous.model}) → ${current.provider} (${current.model})`,
+        [
+            '| Metric | Before | After | Change |',
+            '| --- | --- | --- | --- |',
+            `| passed | ${previous.summary.passed}/${previous.summary.cases} | ${current.summary.passed}/${current.summary.cases} | ${current.summary.passed - previous.summary.passed >= 0 ? '+' : ''}${current.summary.passed - previous.summary.passed} |`,
+            ...metrics,
+        ].join('\n'),
+        ...(regressions.length ? ['## Regressions', ...regressions.map(result => `- **${result.id}** "${result.question}": ${result.failures.join('; ')}`)] : []),
+        ...(fixes.length ? ['## Fixed', ...fixes.map(result => `- **${result.id}** "${result.question}"`)] : []),
+        ...(added.length ? ['## New cases', ...added.map(result => `- **${result.id}** ${result.passed ? 'passed' : 'failed'}`)] : []),
+        ...(removed.length ? ['## Removed cases', ...removed.map(result => `- **${result.id}**`)] : []),
+        `${changedReplies.length} of ${current.results.length} replies changed.`,
+    ].join('\n\n');
+};
@@ -1,6 +1,13 @@
-import React, { useState, useEffect, useRef, forwardRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useId, useSyncExternalStore, forwardRef } from 'react';
 import ReactDOM from 'react-dom/client';
-import { GoogleGenAI, Chat } from "@google/genai";
+import ReactMarkdown from 'react-markdown';
+import type { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import hljs from 'highlight.js';
+import { jsPDF } from 'jspdf';
+import type { Element, ElementContent } from 'hast';
+import { portfolioProfile, formatCompany, formatPeriod, SITE_SECTIONS, validateContactSubmission, createProxyProvider, createMockProvider, buildMockScript, summarizeTranscriptLocally, MAX_TRANSCRIPT_TURNS, createRetryingProvider, createBudgetedProvider, toChatError, CHAT_ERROR_MESSAGES, FEEDBACK_LIMITS, MAX_JOB_DESCRIPTION_CHARS, analyzeJobFitLocally, formatJobFitReport, MAX_CHAT_MESSAGE_CHARS, AUDIENCE_MODES, AUDIENCE_LAYERS, DEFAULT_AUDIENCE_MODE, parseAudienceMode } from './shared.ts';
+import type { AudienceMode, ChatError, ChatErrorKind, ChatFeedback, ContextBudgetState, ChatFeedbackRating, JobFitReport, RetryPolicy, AnalyticsEvent, PortfolioProfile, ProjectEntry, ChatTurn, ChatStreamOptions, ChatProvider, ToolCall, KnowledgeSource, ContactSubmission, ContactFieldErrors } from './shared.ts';
 
 // --- BUNDLED CODE ---
 
@@ -9,141 +16,983 @@ interface Message {
     id: string;
     text: string;
     sender: 'user' | 'bot';
+    status?: 'streaming' | 'stopped' | 'error';
+    errorKind?: ChatErrorKind;
+    timestamp: number;
+    actions?: ToolCall[];
+    sources?: KnowledgeSource[];
+    suggestions?: string[];
+    feedback?: { rating: ChatFeedbackRating; comment?: string };
+    // Set on the fit report message, for its "send an intro" action.
+    jobFit?: JobFitReport;
+    // The proxy's signature of the reply, sent back with it when the session is re-seeded.
+    replyToken?: string;
 }
 
-// services/geminiService.ts
-let chat: Chat | null = null;
-const SYSTEM_INSTRUCTION = `You are a friendly and helpful AI assistant for Rahul Poliyath's personal portfolio website. 
-Your primary goal is to answer questions about Rahul, his skills, projects, and experience based on the information provided below.
-However, you are also equipped to answer any general questions the user might have.
-Be conversational, professional, and engaging. When answering about Rahul, keep your answers concise.
-Here is some information about Rahul:
-- Name: Rahul Poliyath
-- Title: Full Stack Developer
-- Summary: Enthusiastic and self-motivated Developer with over 2 years of professional experience at eClerx, supporting Xfinity clients. Passionate about technology since 2018. Skilled in both frontend and backend development, network systems, and problem-solving.
-- Skills:
-  - Frontend: HTML5, CSS3, JavaScript (ES6+), React.js, Vue.js, C++, Tailwind CSS, Bootstrap, Material UI
-  - Backend: Node.js, Python, Java, FastAPI, PHP, Express.js, RESTful APIs, GraphQL, MySQL, DBMS, Linux
-  - Tools: Git, Docker, VS Code, Visual Studio, Webpack, AWS, RedHat5, Android, KaliLinux, Android Studio, Aide
-- Experience:
-  - eClerx Services Ltd (July 2023 - June 2025): Analyst - Technical Support Executive for Xfinity client.
-- Projects:
-  - College Web App: A real-time platform for students and faculty to share updates.
-  - Real-time Chat App: WebSocket-based app using Socket.io, React, Node.js.
-  - Portfolio Dashboard, Task Management System, Weather Forecast App.
-- Education: Bachelor of Computer Application, Tilak Maharashtra Vidyapeeth (2022).
-- Contact: Ask the user to use the contact form on the website for professional inquiries.
-
-If a question is about Rahul and you don't know the answer from the provided context, clearly state that you don't have that specific information about him. Do not invent information about Rahul. For all other questions, feel free to use your general knowledge.`;
-
-const initializeChat = (): Chat => {
-    if (!process.env.API_KEY) {
-        throw new Error("API_KEY environment variable not set");
+interface ContactDraft {
+    name?: string;
+    email?: string;
+    subject?: string;
+    message?: string;
+}
+
+// services/siteConfig.ts
+// Settings come from window.__PORTFOLIO_CONFIG__, set in index.html. The page loads without a bundler, so
+// there is no `process`; a host that substitutes process.env.* at build time still works, and the
+// guarded read keeps every other host from failing before the app mounts.
+interface SiteConfig {
+    chatProvider?: string;
+    chatApiUrl?: string;
+    contactApiUrl?: string;
+    feedbackApiUrl?: string;
+    analyticsApiUrl?: string;
+    pdfWorkerUrl?: string;
+}
+
+const siteConfig: SiteConfig = (window as Window & { __PORTFOLIO_CONFIG__?: SiteConfig }).__PORTFOLIO_CONFIG__ ?? {};
+
+const readEnv = (read: () => string | undefined): string | undefined => {
+    try {
+        return read();
+    } catch {
+        return undefined;
     }
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    return ai.chats.create({
-        model: 'gemini-2.5-flash',
-        config: {
-            systemInstruction: SYSTEM_INSTRUCTION,
-        },
+};
+
+// services/chatService.ts
+// The model and its API key live behind the proxy in server.ts; the browser only ever talks to
+// the proxy, or to the offline mock when the chat provider is set to 'mock'.
+interface ChatConfig {
+    provider: 'proxy' | 'mock';
+    endpoint: string;
+    retry: Partial<RetryPolicy>;
+}
+
+const chatConfig: ChatConfig = {
+    provider: (siteConfig.chatProvider ?? readEnv(() => process.env.CHAT_PROVIDER)) === 'mock' ? 'mock' : 'proxy',
+    endpoint: siteConfig.chatApiUrl ?? readEnv(() => process.env.CHAT_API_URL) ?? '/api/chat',
+    // The server already retries the model, so these retries mostly cover the visitor's own connection.
+    // The timeout leaves room for the server's retries before its first chunk.
+    retry: { retries: 2, timeoutMs: 90_000 },
+};
+
+const getVisitorSessionId = (): string => {
+    let sessionId = localStorage.getItem('chatSessionId');
+    if (!sessionId) {
+        sessionId = crypto.randomUUID();
+        localStorage.setItem('chatSessionId', sessionId);
+    }
+    return sessionId;
+};
+
+const createChatProvider = (config: ChatConfig): ChatProvider => {
+    // The proxy budgets the conversation on the server; the offline mock does it here, with the local summary.
+    if (config.provider === 'mock') {
+        return createBudgetedProvider(createMockProvider({ script: buildMockScript(portfolioProfile), fallback: "I'm running in offline mode and don't have a scripted answer for that." }));
+    }
+    return createRetryingProvider(createProxyProvider({ endpoint: config.endpoint, sessionId: getVisitorSessionId() }), config.retry);
+};
+
+let activeProvider: ChatProvider | null = null;
+const getChatProvider = (): ChatProvider => {
+    if (!activeProvider) {
+        activeProvider = createChatProvider(chatConfig);
+    }
+    return activeProvider;
+};
+
+// Failures leave the conversation history alone: a failed message never becomes part of it.
+const getChatResponse = async (userMessage: string, provider: ChatProvider = getChatProvider()): Promise<string> => {
+    try {
+        return await provider.send(userMessage);
+    } catch (error) {
+        const chatError = toChatError(error);
+        console.error(`Chat provider (${provider.name}) ${chatError.kind} error:`, error);
+        return CHAT_ERROR_MESSAGES[chatError.kind];
+    }
+};
+
+// Streams the reply, calling onChunk with the accumulated text. Unlike getChatResponse this
+// throws a ChatError on failure so the caller can decide what to do with a partially received reply.
+const streamChatResponse = async (userMessage: string, options: ChatStreamOptions, provider: ChatProvider = getChatProvider()): Promise<string> => {
+    try {
+        return await provider.stream(userMessage, options);
+    } catch (error) {
+        const chatError: ChatError = toChatError(error);
+        console.error(`Chat provider (${provider.name}) ${chatError.kind} error:`, error);
+        throw chatError;
+    }
+};
+
+// The offline mock has no server to ask, so it summarizes locally.
+const requestTranscriptSummary = async (turns: ChatTurn[]): Promise<string> => {
+    if (chatConfig.provider === 'mock') return summarizeTranscriptLocally(turns);
+    const response = await fetch(`${chatConfig.endpoint}/summary`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ transcript: turns.slice(-MAX_TRANSCRIPT_TURNS) }),
     });
+    if (!response.ok) {
+        throw new Error(`Summary request failed with status ${response.status}`);
+    }
+    const { summary }: { summary: string } = await response.json();
+    return summary;
 };
 
-const getChatResponse = async (userMessage: string): Promise<string> => {
+// services/chatStorage.ts
+const CHAT_STORAGE_KEY = 'chatConversation';
+
+const loadConversation = (): Message[] | null => {
     try {
-        if (!chat) {
-            chat = initializeChat();
+        const stored = localStorage.getItem(CHAT_STORAGE_KEY);
+        if (!stored) return null;
+        const messages: Message[] = JSON.parse(stored);
+        return Array.isArray(messages) && messages.length ? messages : null;
+    } catch (error) {
+        console.error('Failed to restore chat conversation:', error);
+        return null;
+    }
+};
+
+const saveConversation = (messages: Message[]) => {
+    // A reply that was still streaming when the page closed can never finish, so store it as stopped.
+    const settled = messages.map(msg => (msg.status === 'streaming' ? { ...msg, status: 'stopped' as const } : msg));
+    try {
+        localStorage.setItem(CHAT_STORAGE_KEY, JSON.stringify(settled));
+    } catch (error) {
+        console.error('Failed to save chat conversation:', error);
+    }
+};
+
+// Removes every trace of the chat from this browser, including the proxy session id.
+const clearChatHistory = () => {
+    localStorage.removeItem(CHAT_STORAGE_KEY);
+    localStorage.removeItem('chatSessionId');
+    activeProvider = null;
+};
+
+// The audience mode is a preference, like the theme, so clearing the chat history keeps it.
+const AUDIENCE_STORAGE_KEY = 'chatAudience';
+
+const loadAudienceMode = (): AudienceMode => parseAudienceMode(localStorage.getItem(AUDIENCE_STORAGE_KEY)) ?? DEFAULT_AUDIENCE_MODE;
+
+const saveAudienceMode = (mode: AudienceMode) => {
+    localStorage.setItem(AUDIENCE_STORAGE_KEY, mode);
+};
+
+// Rebuilds the model-side history from the visible messages. Only completed user/bot exchanges are
+// kept so the history alternates user/model turns, as the chat APIs require.
+const toChatTurns = (messages: Message[]): ChatTurn[] => {
+    const turns: ChatTurn[] = [];
+    messages.forEach((msg, index) => {
+        const reply = messages[index + 1];
+        if (msg.sender === 'user' && reply?.sender === 'bot' && reply.status !== 'error' && reply.text) {
+            turns.push({ role: 'user', text: msg.text }, { role: 'model', text: reply.text, ...(reply.replyToken ? { token: reply.replyToken } : {}) });
         }
+    });
+    return turns;
+};
+
+// services/contactService.ts
+const CONTACT_ENDPOINT = siteConfig.contactApiUrl ?? readEnv(() => process.env.CONTACT_API_URL) ?? '/api/contact';
 
-        const result = await chat.sendMessage({ message: userMessage });
-        return result.text;
+class ContactSubmissionError extends Error {
+    fieldErrors: ContactFieldErrors;
+
+    constructor(message: string, fieldErrors: ContactFieldErrors = {}) {
+        super(message);
+        this.fieldErrors = fieldErrors;
+    }
+}
+
+// `website` is the honeypot field: always empty for real visitors.
+const submitContactForm = async (submission: ContactSubmission & { website: string }): Promise<void> => {
+    let response: Response;
+    try {
+        response = await fetch(CONTACT_ENDPOINT, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(submission),
+        });
+    } catch {
+        throw new ContactSubmissionError("Couldn't reach the server. Check your connection and try again.");
+    }
+    if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new ContactSubmissionError(data.error ?? 'Something went wrong while sending your message.', data.fieldErrors);
+    }
+};
+
+// services/feedbackService.ts
+const FEEDBACK_ENDPOINT = siteConfig.feedbackApiUrl ?? readEnv(() => process.env.FEEDBACK_API_URL) ?? '/api/feedback';
+
+const sendChatFeedback = async (feedback: ChatFeedback): Promise<void> => {
+    const response = await fetch(FEEDBACK_ENDPOINT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId: getVisitorSessionId(), ...feedback }),
+    });
+    if (!response.ok) {
+        throw new Error(`Feedback request failed with status ${response.status}`);
+    }
+};
+
+// services/jobFitService.ts
+const MAX_JOB_DESCRIPTION_FILE_BYTES = 5 * 1024 * 1024;
+const PDF_WORKER_URL = siteConfig.pdfWorkerUrl ?? readEnv(() => process.env.PDF_WORKER_URL) ?? 'https://aistudiocdn.com/pdfjs-dist@^5.6.205/build/pdf.worker.min.mjs';
+
+// pdf.js is large, so it is only loaded once someone uploads a PDF.
+const extractPdfText = async (file: File): Promise<string> => {
+    const pdfjs = await import('pdfjs-dist');
+    pdfjs.GlobalWorkerOptions.workerSrc = PDF_WORKER_URL;
+    const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const { items } = await (await pdf.getPage(pageNumber)).getTextContent();
+        pages.push(items.map(item => ('str' in item ? `${item.str}${item.hasEOL ? '\n' : ' '}` : '')).join(''));
+    }
+    return pages.join('\n\n');
+};
+
+const readJobDescriptionFile = async (file: File): Promise<string> => {
+    if (file.size > MAX_JOB_DESCRIPTION_FILE_BYTES) {
+        throw new Error('That file is larger than 5 MB. Paste the job description instead.');
+    }
+    const text = file.type === 'application/pdf' || /\.pdf$/i.test(file.name) ? await extractPdfText(file) : await file.text();
+    if (!text.trim()) {
+        throw new Error("Couldn't find any text in that file. Scanned PDFs can't be read, so paste the job description instead.");
+    }
+    return text.trim().slice(0, MAX_JOB_DESCRIPTION_CHARS);
+};
+
+// The offline mock has no server to ask, and a failed request still gets the local analysis. Only the
+// server's report comes with a token, so only it is accepted back into the chat session.
+const requestJobFitReport = async (jobDescription: string): Promise<{ report: JobFitReport; token?: string }> => {
+    if (chatConfig.provider === 'mock') return { report: analyzeJobFitLocally(portfolioProfile, jobDescription) };
+    try {
+        const response = await fetch(`${chatConfig.endpoint}/fit`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ jobDescription }),
+        });
+        if (!response.ok) {
+            throw new Error(`Fit analysis request failed with status ${response.status}`);
+        }
+        return await response.json();
     } catch (error) {
-        console.error("Gemini API error:", error);
-        chat = null; // Reset chat on error
-        return "Sorry, I'm having trouble connecting to my brain right now. Please try again later.";
+        console.error('Failed to analyze the job description:', error);
+        return { report: analyzeJobFitLocally(portfolioProfile, jobDescription) };
     }
 };
 
-// hooks/useTheme.ts
-const useTheme = () => {
-    const [theme, setTheme] = useState<'light' | 'dark'>(() => {
-        if (typeof window !== 'undefined') {
-            const storedTheme = localStorage.getItem('theme');
-            if (storedTheme) {
-                return storedTheme as 'light' | 'dark';
-            }
-            return window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light';
+// services/analytics.ts
+// First-party and cookie-less: events go to our own server, which keeps daily counts and the text of
+// chatbot questions, but nothing that identifies a visitor. Do Not Track, Global Privacy Control and
+// the footer opt-out all switch it off.
+const ANALYTICS_ENDPOINT = siteConfig.analyticsApiUrl ?? readEnv(() => process.env.ANALYTICS_API_URL) ?? '/api/analytics';
+const ANALYTICS_OPT_OUT_KEY = 'analyticsOptOut';
+
+const isDoNotTrackEnabled = () => navigator.doNotTrack === '1' || (navigator as Navigator & { globalPrivacyControl?: boolean }).globalPrivacyControl === true;
+
+const isAnalyticsOptedOut = () => localStorage.getItem(ANALYTICS_OPT_OUT_KEY) === '1';
+
+const setAnalyticsOptOut = (optOut: boolean) => {
+    if (optOut) {
+        localStorage.setItem(ANALYTICS_OPT_OUT_KEY, '1');
+    } else {
+        localStorage.removeItem(ANALYTICS_OPT_OUT_KEY);
+    }
+};
+
+// sendBeacon still delivers while the page unloads; fetch with keepalive covers browsers that refuse it.
+const trackEvent = (event: AnalyticsEvent) => {
+    if (isDoNotTrackEnabled() || isAnalyticsOptedOut()) return;
+    const body = JSON.stringify(event);
+    if (navigator.sendBeacon?.(ANALYTICS_ENDPOINT, new Blob([body], { type: 'application/json' }))) return;
+    fetch(ANALYTICS_ENDPOINT, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body, keepalive: true }).catch(() => {});
+};
+
+// services/resumeExport.ts
+const resumeFileName = (profile: PortfolioProfile, extension: string) => `${profile.name.replace(/\s+/g, '-')}-Resume.${extension}`;
+
+const downloadFile = (fileName: string, content: Blob | string, type: string) => {
+    const blob = content instanceof Blob ? content : new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const PDF_MARGIN = 50;
+const PDF_PRIMARY: [number, number, number] = [33, 128, 141];
+const PDF_TEXT: [number, number, number] = [19, 52, 59];
+const PDF_MUTED: [number, number, number] = [98, 108, 113];
+
+// Lays the profile out top to bottom, starting a new page whenever the next line would not fit.
+const buildResumePdf = (profile: PortfolioProfile): jsPDF => {
+    const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const contentWidth = pageWidth - PDF_MARGIN * 2;
+    let y = PDF_MARGIN;
+
+    const ensureSpace = (height: number) => {
+        if (y + height > pageHeight - PDF_MARGIN) {
+            doc.addPage();
+            y = PDF_MARGIN;
         }
-        return 'light';
+    };
+
+    const setStyle = (size: number, style: 'normal' | 'bold' | 'italic', color: [number, number, number]) => {
+        doc.setFont('helvetica', style);
+        doc.setFontSize(size);
+        doc.setTextColor(...color);
+    };
+
+    const paragraph = (text: string, { size = 10, style = 'normal', color = PDF_TEXT, gap = 6 }: { size?: number; style?: 'normal' | 'bold' | 'italic'; color?: [number, number, number]; gap?: number } = {}) => {
+        setStyle(size, style, color);
+        const lineHeight = size * 1.4;
+        (doc.splitTextToSize(text, contentWidth) as string[]).forEach(line => {
+            ensureSpace(lineHeight);
+            doc.text(line, PDF_MARGIN, y, { baseline: 'top' });
+            y += lineHeight;
+        });
+        y += gap;
+    };
+
+    const sectionHeading = (title: string) => {
+        ensureSpace(40);
+        y += 8;
+        setStyle(13, 'bold', PDF_PRIMARY);
+        doc.text(title, PDF_MARGIN, y, { baseline: 'top' });
+        y += 18;
+        doc.setDrawColor(...PDF_PRIMARY);
+        doc.setLineWidth(0.75);
+        doc.line(PDF_MARGIN, y, pageWidth - PDF_MARGIN, y);
+        y += 8;
+    };
+
+    // A bold title on the left with a muted date on the right, kept on the same page as the text after it.
+    const entryHeader = (title: string, date: string) => {
+        ensureSpace(50);
+        setStyle(11, 'bold', PDF_TEXT);
+        doc.text(title, PDF_MARGIN, y, { baseline: 'top', maxWidth: contentWidth - 120 });
+        setStyle(9, 'normal', PDF_MUTED);
+        doc.text(date, pageWidth - PDF_MARGIN, y, { baseline: 'top', align: 'right' });
+        y += 16;
+    };
+
+    doc.setProperties({ title: `${profile.name} - Resume`, author: profile.name, subject: profile.title });
+
+    setStyle(24, 'bold', PDF_TEXT);
+    doc.text(profile.name.toUpperCase(), pageWidth / 2, y, { baseline: 'top', align: 'center' });
+    y += 30;
+    setStyle(12, 'normal', PDF_MUTED);
+    doc.text(profile.title, pageWidth / 2, y, { baseline: 'top', align: 'center' });
+    y += 18;
+
+    // Contact line: every item is a clickable link.
+    const contactItems = [
+        { label: profile.contact.email, url: `mailto:${profile.contact.email}` },
+        ...profile.contact.links.map(link => ({ label: link.href.replace(/^https?:\/\//, ''), url: link.href })),
+    ];
+    setStyle(9, 'normal', PDF_PRIMARY);
+    const separator = '   |   ';
+    const contactWidth = contactItems.reduce((sum, item) => sum + doc.getTextWidth(item.label), 0) + doc.getTextWidth(separator) * (contactItems.length - 1);
+    let x = Math.max(PDF_MARGIN, (pageWidth - contactWidth) / 2);
+    contactItems.forEach((item, index) => {
+        if (index > 0) {
+            doc.setTextColor(...PDF_MUTED);
+            doc.text(separator, x, y, { baseline: 'top' });
+            x += doc.getTextWidth(separator);
+            doc.setTextColor(...PDF_PRIMARY);
+        }
+        if (x + doc.getTextWidth(item.label) > pageWidth - PDF_MARGIN) {
+            x = PDF_MARGIN;
+            y += 14;
+        }
+        doc.textWithLink(item.label, x, y, { url: item.url, baseline: 'top' });
+        x += doc.getTextWidth(item.label);
+    });
+    y += 24;
+
+    sectionHeading('Professional Summary');
+    paragraph(profile.summary);
+
+    sectionHeading('Technical Skills');
+    profile.skills.forEach(group => paragraph(`${group.title}: ${group.skills.join(', ')}`, { gap: 3 }));
+
+    sectionHeading('Work Experience');
+    profile.experience.forEach(entry => {
+        entryHeader(entry.title, formatPeriod(entry));
+        paragraph(formatCompany(entry), { style: 'bold', color: PDF_PRIMARY, gap: 2 });
+        paragraph(entry.description, { color: PDF_MUTED, gap: 10 });
+    });
+
+    sectionHeading('Projects');
+    profile.projects.forEach(project => {
+        paragraph(project.title, { style: 'bold', gap: 1 });
+        paragraph(`${project.description}${project.tech.length ? ` Built with ${project.tech.join(', ')}.` : ''}`, { color: PDF_MUTED, gap: 8 });
+    });
+
+    sectionHeading('Education');
+    profile.education.forEach(entry => {
+        entryHeader(entry.degree, entry.year);
+        paragraph(entry.institution, { color: PDF_MUTED });
     });
 
+    const pageCount = doc.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+        doc.setPage(page);
+        setStyle(8, 'normal', PDF_MUTED);
+        doc.text(`${profile.name} - Page ${page} of ${pageCount}`, pageWidth / 2, pageHeight - PDF_MARGIN / 2, { align: 'center' });
+    }
+
+    return doc;
+};
+
+// https://jsonresume.org/schema
+const buildJsonResume = (profile: PortfolioProfile) => ({
+    $schema: 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json',
+    basics: {
+        name: profile.name,
+        label: profile.title,
+        email: profile.contact.email,
+        summary: profile.summary,
+        profiles: profile.contact.links.map(link => ({ network: link.label, url: link.href, username: link.href.split('/').pop() })),
+    },
+    work: profile.experience.map(entry => ({
+        name: formatCompany(entry),
+        position: entry.title,
+        startDate: entry.startDate,
+        ...(entry.endDate ? { endDate: entry.endDate } : {}),
+        summary: entry.description,
+    })),
+    education: profile.education.map(entry => ({
+        institution: entry.institution,
+        studyType: entry.degree,
+        endDate: entry.year,
+    })),
+    skills: profile.skills.map(group => ({ name: group.title, keywords: group.skills })),
+    projects: profile.projects.map(project => ({
+        name: project.title,
+        description: project.details ?? project.description,
+        keywords: project.tech,
+        ...(project.demoUrl || project.repoUrl ? { url: project.demoUrl ?? project.repoUrl } : {}),
+        ...(project.role ? { roles: [project.role] } : {}),
+        ...(project.outcomes?.length ? { highlights: project.outcomes } : {}),
+    })),
+});
+
+// Plain text with simple uppercase headings: what applicant tracking systems parse most reliably.
+const buildPlainTextResume = (profile: PortfolioProfile): string => [
+    profile.name.toUpperCase(),
+    profile.title,
+    [profile.contact.email, ...profile.contact.links.map(link => link.href)].join(' | '),
+    '',
+    'PROFESSIONAL SUMMARY',
+    profile.summary,
+    '',
+    'TECHNICAL SKILLS',
+    ...profile.skills.map(group => `${group.title}: ${group.skills.join(', ')}`),
+    '',
+    'WORK EXPERIENCE',
+    ...profile.experience.flatMap(entry => [`${entry.title}, ${formatCompany(entry)} (${formatPeriod(entry)})`, entry.description, '']),
+    'PROJECTS',
+    ...profile.projects.flatMap(project => [`${project.title}${project.tech.length ? ` (${project.tech.join(', ')})` : ''}`, project.description, '']),
+    'EDUCATION',
+    ...profile.education.map(entry => `${entry.degree}, ${entry.institution} (${entry.year})`),
+    '',
+].join('\n');
+
+type ResumeFormat = 'pdf' | 'json' | 'txt';
+
+const downloadResume = (format: ResumeFormat, profile: PortfolioProfile = portfolioProfile) => {
+    trackEvent({ type: 'resume_download', detail: format });
+    switch (format) {
+        case 'pdf':
+            buildResumePdf(profile).save(resumeFileName(profile, 'pdf'));
+            break;
+        case 'json':
+            downloadFile(resumeFileName(profile, 'json'), JSON.stringify(buildJsonResume(profile), null, 2), 'application/json');
+            break;
+        case 'txt':
+            downloadFile(resumeFileName(profile, 'txt'), buildPlainTextResume(profile), 'text/plain;charset=utf-8');
+            break;
+    }
+};
+
+// services/transcriptExport.ts
+// Only the passages the reply actually cites with [n] are listed under it.
+const getCitedSources = (msg: Message) => (msg.sources ?? []).filter(source => msg.text.includes(`[${source.id}]`));
+
+const ASSISTANT_NAME = `${portfolioProfile.name.split(' ')[0]}'s AI assistant`;
+
+const transcriptFileName = (extension: string, date = new Date()) => `chat-${portfolioProfile.name.split(' ')[0].toLowerCase()}-assistant-${date.toISOString().slice(0, 10)}.${extension}`;
+
+// Messages still waiting for their first chunk have nothing to export.
+const exportableMessages = (messages: Message[]) => messages.filter(msg => msg.text.trim());
+
+const speakerName = (msg: Message) => (msg.sender === 'user' ? 'You' : 'Assistant');
+
+const formatTranscriptTime = (timestamp: number) => new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+const buildTranscriptMarkdown = (messages: Message[], exportedAt = new Date()): string => [
+    `# Conversation with ${ASSISTANT_NAME}`,
+    `_Exported ${formatTranscriptTime(exportedAt.getTime())}_`,
+    ...exportableMessages(messages).map(msg => [
+        `**${speakerName(msg)}** (${formatTranscriptTime(msg.timestamp)})`,
+        msg.text,
+        ...getCitedSources(msg).map(source => `> [${source.id}] ${source.title} (${source.document})`),
+    ].join('\n\n')),
+].join('\n\n---\n\n');
+
+const buildTranscriptJson = (messages: Message[], exportedAt = new Date()) => ({
+    assistant: ASSISTANT_NAME,
+    exportedAt: exportedAt.toISOString(),
+    messages: exportableMessages(messages).map(msg => ({
+        sender: msg.sender,
+        text: msg.text,
+        timestamp: new Date(msg.timestamp).toISOString(),
+        ...(msg.status ? { status: msg.status } : {}),
+        ...(msg.actions?.length ? { actions: msg.actions } : {}),
+        ...(getCitedSources(msg).length ? { sources: getCitedSources(msg) } : {}),
+    })),
+});
+
+// jsPDF cannot render Markdown, so emphasis and code markers are dropped and links keep their target.
+const markdownToPlainText = (markdown: string) => markdown
+    .replace(/```[^\n]*\n?/g, '')
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/(\*\*|__|\*|`)/g, '');
+
+const buildTranscriptPdf = (messages: Message[], exportedAt = new Date()): jsPDF => {
+    const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const contentWidth = doc.internal.pageSize.getWidth() - PDF_MARGIN * 2;
+    let y = PDF_MARGIN;
+
+    const write = (text: string, size: number, style: 'normal' | 'bold' | 'italic', color: [number, number, number], gap: number) => {
+        doc.setFont('helvetica', style);
+        doc.setFontSize(size);
+        doc.setTextColor(...color);
+        const lineHeight = size * 1.4;
+        (doc.splitTextToSize(text, contentWidth) as string[]).forEach(line => {
+            if (y + lineHeight > pageHeight - PDF_MARGIN) {
+                doc.addPage();
+                y = PDF_MARGIN;
+            }
+            doc.text(line, PDF_MARGIN, y, { baseline: 'top' });
+            y += lineHeight;
+        });
+        y += gap;
+    };
+
+    doc.setProperties({ title: `Conversation with ${ASSISTANT_NAME}` });
+    write(`Conversation with ${ASSISTANT_NAME}`, 16, 'bold', PDF_TEXT, 2);
+    write(`Exported ${formatTranscriptTime(exportedAt.getTime())}`, 9, 'normal', PDF_MUTED, 16);
+    exportableMessages(messages).forEach(msg => {
+        write(`${speakerName(msg)} - ${formatTranscriptTime(msg.timestamp)}`, 10, 'bold', msg.sender === 'user' ? PDF_TEXT : PDF_PRIMARY, 2);
+        write(markdownToPlainText(msg.text), 10, 'normal', PDF_TEXT, 4);
+        getCitedSources(msg).forEach(source => write(`[${source.id}] ${source.title} (${source.document})`, 8, 'italic', PDF_MUTED, 0));
+        y += 10;
+    });
+    return doc;
+};
+
+type TranscriptFormat = 'md' | 'json' | 'pdf';
+
+const downloadTranscript = (messages: Message[], format: TranscriptFormat) => {
+    switch (format) {
+        case 'md':
+            downloadFile(transcriptFileName('md'), buildTranscriptMarkdown(messages), 'text/markdown;charset=utf-8');
+            break;
+        case 'json':
+            downloadFile(transcriptFileName('json'), JSON.stringify(buildTranscriptJson(messages), null, 2), 'application/json');
+            break;
+        case 'pdf':
+            buildTranscriptPdf(messages).save(transcriptFileName('pdf'));
+            break;
+    }
+};
+
+// hooks/useTheme.ts
+type ThemeMode = 'light' | 'dark' | 'system';
+
+// Each palette is a [data-palette] block of color tokens in index.html, with values for light and dark mode.
+const THEME_PALETTES = [
+    { id: 'default', label: 'Default' },
+    { id: 'high-contrast', label: 'High contrast' },
+] as const;
+type ThemePalette = typeof THEME_PALETTES[number]['id'];
+
+const THEME_MODE_KEY = 'theme';
+const THEME_PALETTE_KEY = 'themePalette';
+const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)';
+
+const readStoredMode = (): ThemeMode => {
+    const stored = localStorage.getItem(THEME_MODE_KEY);
+    return stored === 'light' || stored === 'dark' ? stored : 'system';
+};
+
+const readStoredPalette = (): ThemePalette => THEME_PALETTES.find(palette => palette.id === localStorage.getItem(THEME_PALETTE_KEY))?.id ?? 'default';
+
+const subscribeToColorScheme = (onChange: () => void) => {
+    const query = window.matchMedia(DARK_SCHEME_QUERY);
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+};
+
+const useTheme = () => {
+    const [mode, setModeState] = useState<ThemeMode>(readStoredMode);
+    const [palette, setPaletteState] = useState<ThemePalette>(readStoredPalette);
+    const prefersDark = useSyncExternalStore(subscribeToColorScheme, () => window.matchMedia(DARK_SCHEME_QUERY).matches);
+    const resolvedTheme: 'light' | 'dark' = mode === 'system' ? (prefersDark ? 'dark' : 'light') : mode;
+
     useEffect(() => {
         const root = window.document.documentElement;
-        root.classList.remove(theme === 'dark' ? 'light' : 'dark');
-        root.classList.add(theme);
-        localStorage.setItem('theme', theme);
-    }, [theme]);
+        root.classList.toggle('dark', resolvedTheme === 'dark');
+        root.dataset.palette = palette;
+    }, [resolvedTheme, palette]);
+
+    // Only explicit choices are stored; picking "system" forgets the override so OS changes apply again.
+    const setMode = (next: ThemeMode) => {
+        setModeState(next);
+        if (next === 'system') {
+            localStorage.removeItem(THEME_MODE_KEY);
+        } else {
+            localStorage.setItem(THEME_MODE_KEY, next);
+        }
+    };
 
-    const toggleTheme = () => {
-        setTheme(prevTheme => (prevTheme === 'light' ? 'dark' : 'light'));
+    const setPalette = (next: ThemePalette) => {
+        setPaletteState(next);
+        localStorage.setItem(THEME_PALETTE_KEY, next);
     };
 
-    return { theme, toggleTheme };
+    return { mode, palette, resolvedTheme, setMode, setPalette };
 };
 
+type ThemeControls = ReturnType<typeof useTheme>;
+
+// services/scrollSpy.ts
+// One set of IntersectionObservers shared by every consumer. The active section is the one crossing a
+// 1px "reading line" `offset` pixels below the top of the viewport; sentinels at the top and bottom of the
+// document report whether the page is scrolled and whether its end is visible. Nothing reads layout on scroll.
+interface ScrollSpyState {
+    activeSection: string | null;
+    isScrolled: boolean;
+}
+
+const createScrollSpy = ({ offset, scrolledThreshold }: { offset: number; scrolledThreshold: number }) => {
+    let state: ScrollSpyState = { activeSection: null, isScrolled: false };
+    const listeners = new Set<() => void>();
+    const sections = new Set<HTMLElement>();
+    const onReadingLine = new Set<HTMLElement>();
+    let isAtBottom = false;
+    let lineObserver: IntersectionObserver | null = null;
+    let edgeObserver: IntersectionObserver | null = null;
+    let sentinels: { top: HTMLElement; bottom: HTMLElement } | null = null;
+    let resizeFrame = 0;
+
+    const setState = (next: Partial<ScrollSpyState>) => {
+        const merged = { ...state, ...next };
+        if (merged.activeSection === state.activeSection && merged.isScrolled === state.isScrolled) return;
+        state = merged;
+        listeners.forEach(listener => listener());
+    };
+
+    const inDocumentOrder = (elements: HTMLElement[]) => elements.sort((a, b) => (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1));
+
+    // A short last section can never reach the reading line, so it wins whenever the end of the page is visible.
+    const update = () => {
+        const ordered = inDocumentOrder([...sections]);
+        const candidates = isAtBottom ? ordered : ordered.filter(section => onReadingLine.has(section));
+        const active = candidates[candidates.length - 1];
+        if (active) {
+            setState({ activeSection: active.id });
+        } else if (!ordered.some(section => section.id === state.activeSection)) {
+            setState({ activeSection: ordered[0]?.id ?? null });
+        }
+    };
+
+    const createLineObserver = () => {
+        onReadingLine.clear();
+        const bottomMargin = Math.max(window.innerHeight - offset - 1, 0);
+        lineObserver = new IntersectionObserver(entries => {
+            entries.forEach(entry => (entry.isIntersecting ? onReadingLine.add(entry.target as HTMLElement) : onReadingLine.delete(entry.target as HTMLElement)));
+            update();
+        }, { rootMargin: `-${offset}px 0px -${bottomMargin}px 0px` });
+        sections.forEach(section => lineObserver?.observe(section));
+    };
+
+    // The reading line is expressed in pixels from both edges, so it has to be rebuilt when the viewport height changes.
+    const handleResize = () => {
+        cancelAnimationFrame(resizeFrame);
+        resizeFrame = requestAnimationFrame(() => {
+            lineObserver?.disconnect();
+            createLineObserver();
+        });
+    };
+
+    const createSentinel = (style: Partial<CSSStyleDeclaration>) => {
+        const sentinel = document.createElement('div');
+        sentinel.setAttribute('aria-hidden', 'true');
+        Object.assign(sentinel.style, { width: '1px', pointerEvents: 'none', visibility: 'hidden' }, style);
+        document.body.append(sentinel);
+        return sentinel;
+    };
+
+    const start = () => {
+        if (lineObserver) return;
+        sentinels = {
+            top: createSentinel({ position: 'absolute', top: '0', left: '0', height: `${scrolledThreshold}px` }),
+            bottom: createSentinel({ height: '1px', marginTop: '-1px' }),
+        };
+        edgeObserver = new IntersectionObserver(entries => {
+            entries.forEach(entry => {
+                if (entry.target === sentinels?.top) setState({ isScrolled: !entry.isIntersecting });
+                if (entry.target === sentinels?.bottom) isAtBottom = entry.isIntersecting;
+            });
+            update();
+        }, { rootMargin: '0px 0px 2px 0px' });
+        edgeObserver.observe(sentinels.top);
+        edgeObserver.observe(sentinels.bottom);
+        createLineObserver();
+        window.addEventListener('resize', handleResize);
+    };
+
+    const stopIfIdle = () => {
+        if (listeners.size > 0 || sections.size > 0 || !lineObserver) return;
+        lineObserver.disconnect();
+        edgeObserver?.disconnect();
+        sentinels?.top.remove();
+        sentinels?.bottom.remove();
+        lineObserver = edgeObserver = sentinels = null;
+        cancelAnimationFrame(resizeFrame);
+        window.removeEventListener('resize', handleResize);
+    };
+
+    return {
+        getState: () => state,
+        subscribe: (listener: () => void) => {
+            listeners.add(listener);
+            start();
+            return () => {
+                listeners.delete(listener);
+                stopIfIdle();
+            };
+        },
+        observe: (section: HTMLElement) => {
+            start();
+            sections.add(section);
+            lineObserver?.observe(section);
+            return () => {
+                sections.delete(section);
+                onReadingLine.delete(section);
+                lineObserver?.unobserve(section);
+                update();
+                stopIfIdle();
+            };
+        },
+    };
+};
+
+const scrollSpy = createScrollSpy({ offset: 100, scrolledThreshold: 50 });
+
 // hooks/useScrollSpy.ts
-const useScrollSpy = (
-  sectionRefs: React.RefObject<HTMLElement>[],
-  options?: { offset?: number }
-): string => {
-  const [activeSection, setActiveSection] = useState<string>('home');
-
-  useEffect(() => {
-    const handleScroll = () => {
-      const offset = options?.offset ?? 0;
-      const currentScrollY = window.scrollY;
-
-      let newActiveSection = '';
-
-      sectionRefs.forEach((ref) => {
-        const section = ref.current;
-        if (section) {
-          const sectionTop = section.offsetTop - offset;
-          if (currentScrollY >= sectionTop) {
-            newActiveSection = section.id;
-          }
+const useScrollSpyState = <T,>(select: (state: ScrollSpyState) => T): T => useSyncExternalStore(scrollSpy.subscribe, () => select(scrollSpy.getState()));
+
+// Registers the sections that are currently mounted; sections may be added or removed between renders.
+const useScrollSpy = (sectionRefs: React.RefObject<HTMLElement | null>[]): string => {
+    const registeredRef = useRef(new Map<HTMLElement, () => void>());
+
+    useEffect(() => {
+        const registered = registeredRef.current;
+        const current = new Set(sectionRefs.map(ref => ref.current).filter((section): section is HTMLElement => section !== null));
+        registered.forEach((unobserve, section) => {
+            if (current.has(section)) return;
+            unobserve();
+            registered.delete(section);
+        });
+        current.forEach(section => {
+            if (!registered.has(section)) registered.set(section, scrollSpy.observe(section));
+        });
+    });
+
+    useEffect(() => () => {
+        registeredRef.current.forEach(unobserve => unobserve());
+        registeredRef.current.clear();
+    }, []);
+
+    return useScrollSpyState(state => state.activeSection) ?? 'home';
+};
+
+// services/router.ts
+// Hash routes: "#about" for a section, "#resume/view" for the resume modal and "#projects/<slug>" for a project.
+type Route =
+    | { name: 'section'; section: string }
+    | { name: 'resume' }
+    | { name: 'project'; slug: string };
+
+const ROUTER_STATE_KEY = 'portfolioRoute';
+
+const decodeHash = (hash: string): string | null => {
+    try {
+        return decodeURIComponent(hash.replace(/^#\/?/, ''));
+    } catch {
+        // Malformed escapes such as "#%E0" throw a URIError.
+        return null;
+    }
+};
+
+const parseRoute = (hash: string): Route => {
+    const decoded = decodeHash(hash);
+    if (decoded === null) return { name: 'section', section: 'home' };
+    const [head, detail] = decoded.split('/');
+    if (head === 'resume' && detail === 'view') return { name: 'resume' };
+    if (head === 'projects' && detail && portfolioProfile.projects.some(project => project.slug === detail)) return { name: 'project', slug: detail };
+    return { name: 'section', section: SITE_SECTIONS.includes(head) ? head : 'home' };
+};
+
+const formatRoute = (route: Route): string => {
+    switch (route.name) {
+        case 'resume':
+            return '#resume/view';
+        case 'project':
+            return `#projects/${encodeURIComponent(route.slug)}`;
+        case 'section':
+            return `#${route.section}`;
+    }
+};
+
+// The page section a route belongs to, scrolled into view behind any modal it opens.
+const routeSection = (route: Route) => (route.name === 'section' ? route.section : route.name === 'resume' ? 'resume' : 'projects');
+
+// hooks/useHashRoute.ts
+interface RouteLocation {
+    route: Route;
+    // Whether the page should scroll to the route's section: true for links, history navigation and the initial load.
+    scroll: boolean;
+    fromHistory: boolean;
+}
+
+const useHashRoute = () => {
+    const [location, setLocation] = useState<RouteLocation>(() => ({ route: parseRoute(window.location.hash), scroll: window.location.hash.length > 1, fromHistory: false }));
+
+    useEffect(() => {
+        const handlePopState = () => setLocation({ route: parseRoute(window.location.hash), scroll: true, fromHistory: true });
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    }, []);
+
+    const navigate = (route: Route, { replace = false, scroll = true }: { replace?: boolean; scroll?: boolean } = {}) => {
+        const hash = formatRoute(route);
+        const url = `${window.location.pathname}${window.location.search}${hash}`;
+        if (replace || hash === window.location.hash) {
+            window.history.replaceState(window.history.state, '', url);
+        } else {
+            window.history.pushState({ [ROUTER_STATE_KEY]: true }, '', url);
         }
-      });
-      
-      if ((window.innerHeight + window.scrollY) >= document.body.offsetHeight) {
-         const lastSection = sectionRefs[sectionRefs.length - 1].current;
-         if (lastSection) {
-            newActiveSection = lastSection.id;
-         }
-      }
+        setLocation({ route, scroll, fromHistory: false });
+    };
 
-      if (newActiveSection !== '' && activeSection !== newActiveSection) {
-        setActiveSection(newActiveSection);
-      } else if (currentScrollY < (sectionRefs[0].current?.offsetTop ?? 0) - offset) {
-         setActiveSection('home');
-      }
+    // Closing a modal undoes the entry that opened it, so Back does not reopen it; a modal opened from a shared
+    // link has no such entry and is replaced by its section instead.
+    const close = (fallback: Route) => {
+        if (window.history.state?.[ROUTER_STATE_KEY]) {
+            window.history.back();
+        } else {
+            navigate(fallback, { replace: true, scroll: false });
+        }
     };
 
-    window.addEventListener('scroll', handleScroll, { passive: true });
-    handleScroll(); 
+    return { ...location, navigate, close };
+};
+
+// hooks/useFocusTrap.ts
+const FOCUSABLE_SELECTOR = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+const getFocusable = (container: HTMLElement) => [...container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)].filter(element => !element.closest('[inert]'));
+
+// While active, Tab and Shift+Tab cycle inside the container; on release focus goes back to where it was.
+const useFocusTrap = (containerRef: React.RefObject<HTMLElement | null>, isActive: boolean) => {
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!isActive || !container) return;
+        const previouslyFocused = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+        container.focus();
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key !== 'Tab') return;
+            const focusable = getFocusable(container);
+            const first = focusable[0];
+            const last = focusable[focusable.length - 1];
+            if (!first || !container.contains(document.activeElement)) {
+                event.preventDefault();
+                (first ?? container).focus();
+            } else if (event.shiftKey && (document.activeElement === first || document.activeElement === container)) {
+                event.preventDefault();
+                last.focus();
+            } else if (!event.shiftKey && document.activeElement === last) {
+                event.preventDefault();
+                first.focus();
+            }
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            document.removeEventListener('keydown', handleKeyDown);
+            previouslyFocused?.focus();
+        };
+    }, [isActive]);
+};
+
+// components/Dialog.tsx
+// Modal dialog: labelled by its title, traps focus, closes on Escape or a backdrop click, and locks page scroll.
+const Dialog: React.FC<{ isOpen: boolean; onClose: () => void; labelledBy: string; className?: string; children: React.ReactNode; }> = ({ isOpen, onClose, labelledBy, className = '', children }) => {
+    const panelRef = useRef<HTMLDivElement>(null);
+    useFocusTrap(panelRef, isOpen);
 
-    return () => {
-      window.removeEventListener('scroll', handleScroll);
+    useEffect(() => {
+        if (!isOpen) return;
+        const { overflow } = document.body.style;
+        document.body.style.overflow = 'hidden';
+        return () => { document.body.style.overflow = overflow; };
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const handleKeyDown = (event: React.KeyboardEvent) => {
+        if (event.key !== 'Escape') return;
+        event.stopPropagation();
+        onClose();
     };
-  }, [sectionRefs, options, activeSection]);
 
-  return activeSection;
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[100] p-4 backdrop-blur-sm" onClick={onClose}>
+            <div
+                ref={panelRef}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby={labelledBy}
+                tabIndex={-1}
+                onKeyDown={handleKeyDown}
+                onClick={(e) => e.stopPropagation()}
+                className={`bg-surface text-content w-full max-h-[90vh] rounded-lg shadow-2xl flex flex-col focus:outline-none ${className}`}
+            >
+                {children}
+            </div>
+        </div>
+    );
 };
 
 // components/ResumeModal.tsx
 const ResumeSection: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
     <div className="mb-6">
-        <h3 className="text-xl font-bold text-light-primary dark:text-dark-primary border-b border-light-border dark:border-dark-border pb-2 mb-3">{title}</h3>
+        <h3 className="text-xl font-bold text-primary border-b border-line pb-2 mb-3">{title}</h3>
         {children}
     </div>
 );
@@ -151,98 +1000,60 @@ const ResumeSection: React.FC<{ title: string; children: React.ReactNode }> = ({
 const ExperienceItem: React.FC<{ title: string; company: string; period: string; description: string; }> = ({ title, company, period, description }) => (
     <div className="mb-4">
         <div className="flex justify-between items-baseline flex-wrap">
-            <h4 className="font-bold text-light-text dark:text-dark-text">{title}</h4>
-            <span className="text-sm text-light-text-secondary dark:text-dark-text-secondary">{period}</span>
+            <h4 className="font-bold text-content">{title}</h4>
+            <span className="text-sm text-content-secondary">{period}</span>
         </div>
-        <p className="text-light-primary dark:text-dark-primary font-semibold">{company}</p>
-        <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary m-0">{description}</p>
+        <p className="text-primary font-semibold">{company}</p>
+        <p className="text-sm text-content-secondary m-0">{description}</p>
     </div>
 );
 
 const ResumeModal: React.FC<{ isOpen: boolean; onClose: () => void; }> = ({ isOpen, onClose }) => {
-    useEffect(() => {
-        const handleEsc = (event: KeyboardEvent) => {
-            if (event.key === 'Escape') {
-                onClose();
-            }
-        };
-        window.addEventListener('keydown', handleEsc);
-        return () => window.removeEventListener('keydown', handleEsc);
-    }, [onClose]);
-
-    if (!isOpen) return null;
-
-    const handleDownload = () => {
-        window.print();
-    };
+    const titleId = useId();
 
     return (
-        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[100] p-4 backdrop-blur-sm" onClick={onClose}>
-            <div id="printable-resume" className="bg-light-surface dark:bg-dark-surface text-light-text dark:text-dark-text w-full max-w-4xl h-full max-h-[90vh] rounded-lg shadow-2xl flex flex-col" onClick={(e) => e.stopPropagation()}>
-                <div className="p-4 flex justify-between items-center border-b border-light-border dark:border-dark-border print:hidden">
-                    <h2 className="text-lg font-bold">Rahul Poliyath - Resume</h2>
-                    <div>
-                        <button onClick={handleDownload} className="mr-4 text-light-primary dark:text-dark-primary"><i className="fas fa-print"></i></button>
-                        <button onClick={onClose} className="text-light-text-secondary dark:text-dark-text-secondary hover:text-red-500"><i className="fas fa-times"></i></button>
-                    </div>
+        <Dialog isOpen={isOpen} onClose={onClose} labelledBy={titleId} className="max-w-4xl h-full">
+            <div className="p-4 flex justify-between items-center border-b border-line">
+                <h2 id={titleId} className="text-lg font-bold">{portfolioProfile.name} - Resume</h2>
+                <div>
+                    <button onClick={() => downloadResume('pdf')} className="mr-4 text-primary" aria-label="Download PDF" title="Download PDF"><i className="fas fa-file-pdf" aria-hidden="true"></i></button>
+                    <button onClick={onClose} className="text-content-secondary hover:text-red-500" aria-label="Close resume" title="Close"><i className="fas fa-times" aria-hidden="true"></i></button>
                 </div>
-                <div className="p-8 overflow-y-auto">
-                    <div className="text-center mb-6">
-                        <h1 className="text-4xl font-extrabold mb-1">RAHUL POLIYATH</h1>
-                        <p className="text-lg text-light-text-secondary dark:text-dark-text-secondary">Full Stack Developer</p>
-                        <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">rahul.poliyath@email.com</p>
-                    </div>
-                    <ResumeSection title="Professional Summary">
-                        <p className="text-light-text-secondary dark:text-dark-text-secondary">
-                            Enthusiastic and self-motivated Developer with over 2 years of professional experience at eClerx, supporting Xfinity clients. Passionate about technology and programming since 2018. Skilled in both frontend and backend development, network systems, and problem-solving. Known for combining analytical thinking with creativity to build efficient, user-friendly, and scalable software solutions.
-                        </p>
-                    </ResumeSection>
-                    <ResumeSection title="Technical Skills">
-                        <p><strong>Frontend:</strong> HTML5, CSS3, JavaScript (ES6+), React.js, Vue.js, C++, Tailwind CSS, Bootstrap, Material UI</p>
-                        <p><strong>Backend:</strong> Node.js, Python, Java, FastAPI, PHP, Express.js, RESTful APIs, GraphQL, MySQL , DMBS, Linux</p>
-                        <p><strong>Tools:</strong> Git, Docker, VS Code, Visual Studio, Webpack, AWS, RedHat5, Android, KaliLinux, Android Studio, Aide</p>
-                    </ResumeSection>
-                     <ResumeSection title="Work Experience">
-                        <ExperienceItem title="Analyst - Technical Support Executive" company="eClerx Services Ltd (for Xfinity)" period="July 2023 - June 2025" description="Provided advanced technical solutions and remote troubleshooting for Xfinity clients, utilizing remote desktop tools, network analysis software, and diagnostic utilities to resolve problems effectively." />
-                        <ExperienceItem title="Full Stack Developer (Freelance/Personal)" company="Self-Employed" period="2018 - Present" description="Developed multiple full-stack projects, including a real-time college web application and a WebSocket-based chat application, honing skills in both frontend and backend technologies." />
-                    </ResumeSection>
-                    <ResumeSection title="Education">
-                        <div className="flex justify-between items-baseline">
-                             <h4 className="font-bold text-light-text dark:text-dark-text">Bachelor of Computer Application</h4>
-                             <span className="text-sm text-light-text-secondary dark:text-dark-text-secondary">2022</span>
-                        </div>
-                        <p className="text-light-text-secondary dark:text-dark-text-secondary">Tilak Maharashtra Vidyapeeth</p>
-                    </ResumeSection>
+            </div>
+            <div className="p-8 overflow-y-auto">
+                <div className="text-center mb-6">
+                    <h1 className="text-4xl font-extrabold mb-1 uppercase">{portfolioProfile.name}</h1>
+                    <p className="text-lg text-content-secondary">{portfolioProfile.title}</p>
+                    <p className="text-sm text-content-secondary">{portfolioProfile.contact.email}</p>
                 </div>
+                <ResumeSection title="Professional Summary">
+                    <p className="text-content-secondary">
+                        {portfolioProfile.summary}
+                    </p>
+                </ResumeSection>
+                <ResumeSection title="Technical Skills">
+                    {portfolioProfile.skills.map(group => (
+                        <p key={group.id}><strong>{group.title}:</strong> {group.skills.join(', ')}</p>
+                    ))}
+                </ResumeSection>
+                 <ResumeSection title="Work Experience">
+                    {portfolioProfile.experience.map(entry => (
+                        <ExperienceItem key={`${entry.company}-${entry.startDate}`} title={entry.title} company={formatCompany(entry)} period={formatPeriod(entry)} description={entry.description} />
+                    ))}
+                </ResumeSection>
+                <ResumeSection title="Education">
+                    {portfolioProfile.education.map(entry => (
+                        <div key={entry.degree}>
+                            <div className="flex justify-between items-baseline">
+                                 <h4 className="font-bold text-content">{entry.degree}</h4>
+                                 <span className="text-sm text-content-secondary">{entry.year}</span>
+                            </div>
+                            <p className="text-content-secondary">{entry.institution}</p>
+                        </div>
+                    ))}
+                </ResumeSection>
             </div>
-            <style jsx global>{`
-                @media print {
-                    body * {
-                        visibility: hidden;
-                    }
-                    #printable-resume, #printable-resume * {
-                        visibility: visible;
-                    }
-                    #printable-resume {
-                        position: absolute;
-                        left: 0;
-                        top: 0;
-                        width: 100%;
-                        height: 100%;
-                        max-height: none;
-                        border: none;
-                        box-shadow: none;
-                        border-radius: 0;
-                        color: #000 !important;
-                        background: #fff !important;
-                    }
-                    #printable-resume .dark\\\\:text-dark-text { color: #000 !important; }
-                    #printable-resume .dark\\\\:text-dark-text-secondary { color: #333 !important; }
-                    #printable-resume .dark\\\\:text-dark-primary { color: #21808D !important; }
-                    #printable-resume .dark\\\\:border-dark-border { border-color: #ccc !important; }
-                }
-            `}</style>
-        </div>
+        </Dialog>
     );
 };
 
@@ -256,59 +1067,163 @@ const navLinks = [
     { id: 'contact', title: 'Contact' },
 ];
 
-const Header: React.FC<{ activeSection: string; onNavClick: (sectionId: string) => void; theme: 'light' | 'dark'; toggleTheme: () => void; }> = ({ activeSection, onNavClick, theme, toggleTheme }) => {
-    const [isMenuOpen, setIsMenuOpen] = useState(false);
-    const [isScrolled, setIsScrolled] = useState(false);
+const THEME_MODE_OPTIONS: { id: ThemeMode; label: string; icon: string }[] = [
+    { id: 'light', label: 'Light', icon: 'fa-sun' },
+    { id: 'dark', label: 'Dark', icon: 'fa-moon' },
+    { id: 'system', label: 'System', icon: 'fa-desktop' },
+];
+
+const ThemeMenu: React.FC<{ theme: ThemeControls; }> = ({ theme }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const buttonRef = useRef<HTMLButtonElement>(null);
+    const panelId = useId();
 
     useEffect(() => {
-        const handleScroll = () => {
-            setIsScrolled(window.scrollY > 50);
+        if (!isOpen) return;
+        containerRef.current?.querySelector<HTMLInputElement>('input:checked')?.focus();
+        const handlePointerDown = (event: PointerEvent) => {
+            if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
         };
-        window.addEventListener('scroll', handleScroll);
-        return () => window.removeEventListener('scroll', handleScroll);
-    }, []);
+        document.addEventListener('pointerdown', handlePointerDown);
+        return () => document.removeEventListener('pointerdown', handlePointerDown);
+    }, [isOpen]);
+
+    const handleKeyDown = (event: React.KeyboardEvent) => {
+        if (event.key !== 'Escape' || !isOpen) return;
+        event.stopPropagation();
+        setIsOpen(false);
+        buttonRef.current?.focus();
+    };
+
+    const handleBlur = (event: React.FocusEvent) => {
+        if (!containerRef.current?.contains(event.relatedTarget as Node | null)) setIsOpen(false);
+    };
+
+    const optionClassName = (isChecked: boolean) => `flex items-center gap-2 px-2 py-1.5 rounded-md cursor-pointer text-sm focus-within:ring-2 focus-within:ring-primary ${isChecked ? 'bg-primary text-on-primary' : 'text-content hover:bg-subtle'}`;
+    const currentIcon = THEME_MODE_OPTIONS.find(option => option.id === theme.mode)?.icon ?? 'fa-desktop';
+
+    return (
+        <div ref={containerRef} className="relative" onKeyDown={handleKeyDown} onBlur={handleBlur}>
+            <button
+                ref={buttonRef}
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-10 h-10 flex items-center justify-center rounded-full bg-surface border border-line hover:bg-subtle transition-colors duration-300"
+                aria-label="Theme settings"
+                aria-expanded={isOpen}
+                aria-controls={panelId}
+            >
+                <i className={`fas ${currentIcon} text-lg`} aria-hidden="true"></i>
+            </button>
+            {isOpen && (
+                <div id={panelId} className="absolute right-0 mt-2 w-52 p-3 bg-surface border border-line rounded-lg shadow-xl space-y-3">
+                    <fieldset>
+                        <legend className="text-xs font-semibold uppercase tracking-wide text-content-secondary mb-1">Mode</legend>
+                        {THEME_MODE_OPTIONS.map(option => (
+                            <label key={option.id} className={optionClassName(theme.mode === option.id)}>
+                                <input type="radio" name="theme-mode" value={option.id} checked={theme.mode === option.id} onChange={() => theme.setMode(option.id)} className="sr-only" />
+                                <i className={`fas ${option.icon} w-4`} aria-hidden="true"></i>
+                                {option.label}
+                            </label>
+                        ))}
+                    </fieldset>
+                    <fieldset>
+                        <legend className="text-xs font-semibold uppercase tracking-wide text-content-secondary mb-1">Palette</legend>
+                        {THEME_PALETTES.map(palette => (
+                            <label key={palette.id} className={optionClassName(theme.palette === palette.id)}>
+                                <input type="radio" name="theme-palette" value={palette.id} checked={theme.palette === palette.id} onChange={() => theme.setPalette(palette.id)} className="sr-only" />
+                                <i className="fas fa-palette w-4" aria-hidden="true"></i>
+                                {palette.label}
+                            </label>
+                        ))}
+                    </fieldset>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const Header: React.FC<{ activeSection: string; onNavClick: (sectionId: string) => void; theme: ThemeControls; }> = ({ activeSection, onNavClick, theme }) => {
+    const [isMenuOpen, setIsMenuOpen] = useState(false);
+    const isScrolled = useScrollSpyState(state => state.isScrolled);
+    const menuRef = useRef<HTMLDivElement>(null);
+    const menuButtonRef = useRef<HTMLButtonElement>(null);
+
+    // Opening the mobile menu moves focus to its first link.
+    useEffect(() => {
+        if (isMenuOpen) menuRef.current?.querySelector<HTMLElement>('a')?.focus();
+    }, [isMenuOpen]);
 
     const handleLinkClick = (id: string) => {
         onNavClick(id);
         setIsMenuOpen(false);
     };
 
+    const handleMenuKeyDown = (event: React.KeyboardEvent) => {
+        const links = [...(menuRef.current?.querySelectorAll<HTMLElement>('a') ?? [])];
+        const index = links.indexOf(document.activeElement as HTMLElement);
+        switch (event.key) {
+            case 'Escape':
+                setIsMenuOpen(false);
+                menuButtonRef.current?.focus();
+                break;
+            case 'ArrowDown':
+                links[(index + 1) % links.length]?.focus();
+                break;
+            case 'ArrowUp':
+                links[(index - 1 + links.length) % links.length]?.focus();
+                break;
+            case 'Home':
+                links[0]?.focus();
+                break;
+            case 'End':
+                links[links.length - 1]?.focus();
+                break;
+            default:
+                return;
+        }
+        event.preventDefault();
+    };
+
+    // Tabbing out of the open menu closes it, as clicking elsewhere would.
+    const handleMenuBlur = (event: React.FocusEvent) => {
+        if (!menuRef.current?.contains(event.relatedTarget as Node | null) && event.relatedTarget !== menuButtonRef.current) setIsMenuOpen(false);
+    };
+
     return (
 // FIX: Replaced single quotes with backticks for template literal class name.
-        <header className={`fixed top-0 left-0 right-0 z-50 transition-all duration-300 ${isScrolled ? 'bg-light-surface/80 dark:bg-dark-surface/80 backdrop-blur-lg border-b border-light-border dark:border-dark-border' : 'bg-transparent'}`}>
+        <header className={`fixed top-0 left-0 right-0 z-50 transition-all duration-300 ${isScrolled ? 'bg-surface/80 backdrop-blur-lg border-b border-line' : 'bg-transparent'}`}>
             <div className="container mx-auto px-4 sm:px-6 lg:px-8">
                 <div className="flex items-center justify-between h-20">
-                    <div className="text-2xl font-bold bg-gradient-to-r from-light-primary to-blue-400 dark:from-dark-primary dark:to-cyan-400 text-transparent bg-clip-text">
-                        RP
+                    <div className="text-2xl font-bold bg-gradient-to-r from-primary to-accent text-transparent bg-clip-text">
+                        {portfolioProfile.name.split(' ').map(part => part[0]).join('')}
                     </div>
-                    <nav className="hidden md:flex items-center space-x-2">
+                    <nav className="hidden md:flex items-center space-x-2" aria-label="Main">
                         {navLinks.map((link) => (
                             <a
                                 key={link.id}
 // FIX: Replaced single quotes with backticks for template literal href.
                                 href={`#${link.id}`}
                                 onClick={(e) => { e.preventDefault(); handleLinkClick(link.id); }}
+                                aria-current={activeSection === link.id ? 'location' : undefined}
 // FIX: Replaced single quotes with backticks for template literal class name.
-                                className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${activeSection === link.id ? 'text-light-primary dark:text-dark-primary bg-light-secondary-bg dark:bg-dark-secondary-bg' : 'text-light-text-secondary dark:text-dark-text-secondary hover:text-light-primary dark:hover:text-dark-primary'}`}
+                                className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${activeSection === link.id ? 'text-primary bg-subtle' : 'text-content-secondary hover:text-primary'}`}
                             >
                                 {link.title}
                             </a>
                         ))}
                     </nav>
                     <div className="flex items-center space-x-4">
-                        <button onClick={toggleTheme} className="w-10 h-10 flex items-center justify-center rounded-full bg-light-surface dark:bg-dark-surface border border-light-border dark:border-dark-border hover:bg-light-secondary-bg dark:hover:bg-dark-secondary-bg transition-transform duration-300 transform hover:rotate-180" aria-label="Toggle theme">
-{/* FIX: Replaced single quotes with backticks for template literal class name. */}
-                            <i className={`fas ${theme === 'light' ? 'fa-moon' : 'fa-sun'} text-lg`}></i>
-                        </button>
+                        <ThemeMenu theme={theme} />
                         <div className="md:hidden">
-                            <button onClick={() => setIsMenuOpen(!isMenuOpen)} className="p-2" aria-label="Toggle menu">
+                            <button ref={menuButtonRef} onClick={() => setIsMenuOpen(!isMenuOpen)} className="p-2" aria-label="Toggle menu" aria-expanded={isMenuOpen} aria-controls="mobile-menu">
                                 <div className="space-y-1.5">
 {/* FIX: Replaced single quotes with backticks for template literal class name. */}
-                                    <span className={`block w-6 h-0.5 bg-light-text dark:bg-dark-text transition-transform duration-300 ${isMenuOpen ? 'rotate-45 translate-y-2' : ''}`}></span>
+                                    <span className={`block w-6 h-0.5 bg-content transition-transform duration-300 ${isMenuOpen ? 'rotate-45 translate-y-2' : ''}`}></span>
 {/* FIX: Replaced single quotes with backticks for template literal class name. */}
-                                    <span className={`block w-6 h-0.5 bg-light-text dark:bg-dark-text transition-opacity duration-300 ${isMenuOpen ? 'opacity-0' : ''}`}></span>
+                                    <span className={`block w-6 h-0.5 bg-content transition-opacity duration-300 ${isMenuOpen ? 'opacity-0' : ''}`}></span>
 {/* FIX: Replaced single quotes with backticks for template literal class name. */}
-                                    <span className={`block w-6 h-0.5 bg-light-text dark:bg-dark-text transition-transform duration-300 ${isMenuOpen ? '-rotate-45 -translate-y-2' : ''}`}></span>
+                                    <span className={`block w-6 h-0.5 bg-content transition-transform duration-300 ${isMenuOpen ? '-rotate-45 -translate-y-2' : ''}`}></span>
                                 </div>
                             </button>
                         </div>
@@ -316,7 +1231,15 @@ const Header: React.FC<{ activeSection: string; onNavClick: (sectionId: string)
                 </div>
             </div>
 {/* FIX: Replaced single quotes with backticks for template literal class name. */}
-            <div className={`md:hidden absolute top-20 left-0 w-full bg-light-surface dark:bg-dark-surface border-t border-light-border dark:border-dark-border transition-transform duration-300 ease-in-out ${isMenuOpen ? 'transform translate-y-0' : 'transform -translate-y-[120%]'}`}>
+            <nav
+                id="mobile-menu"
+                ref={menuRef}
+                aria-label="Main"
+                inert={!isMenuOpen}
+                onKeyDown={handleMenuKeyDown}
+                onBlur={handleMenuBlur}
+                className={`md:hidden absolute top-20 left-0 w-full bg-surface border-t border-line transition-transform duration-300 ease-in-out ${isMenuOpen ? 'transform translate-y-0' : 'transform -translate-y-[120%]'}`}
+            >
                 <div className="px-2 pt-2 pb-3 space-y-1 sm:px-3">
                     {navLinks.map((link) => (
                         <a
@@ -324,26 +1247,26 @@ const Header: React.FC<{ activeSection: string; onNavClick: (sectionId: string)
 // FIX: Replaced single quotes with backticks for template literal href.
                             href={`#${link.id}`}
                             onClick={(e) => { e.preventDefault(); handleLinkClick(link.id); }}
+                            aria-current={activeSection === link.id ? 'location' : undefined}
 // FIX: Replaced single quotes with backticks for template literal class name.
-                            className={`block px-3 py-2 rounded-md text-base font-medium ${activeSection === link.id ? 'text-light-primary dark:text-dark-primary bg-light-secondary-bg dark:bg-dark-secondary-bg' : 'text-light-text-secondary dark:text-dark-text-secondary hover:text-light-primary dark:hover:text-dark-primary'}`}
+                            className={`block px-3 py-2 rounded-md text-base font-medium ${activeSection === link.id ? 'text-primary bg-subtle' : 'text-content-secondary hover:text-primary'}`}
                         >
                             {link.title}
                         </a>
                     ))}
                 </div>
-            </div>
+            </nav>
         </header>
     );
 };
 
 // components/Hero.tsx
-const typingTexts = ['Full Stack Developer', 'AI Enthusiast', 'Problem Solver'];
-const Hero = forwardRef<HTMLElement, { onContactClick: () => void; }>(({ onContactClick }, ref) => {
+const typingTexts = portfolioProfile.roles;
+const Hero = forwardRef<HTMLElement, { onContactClick: () => void; onViewResume: () => void; }>(({ onContactClick, onViewResume }, ref) => {
     const [text, setText] = useState('');
     const [isDeleting, setIsDeleting] = useState(false);
     const [loopNum, setLoopNum] = useState(0);
     const [typingSpeed, setTypingSpeed] = useState(150);
-    const [isResumeOpen, setIsResumeOpen] = useState(false);
 
     useEffect(() => {
         const handleType = () => {
@@ -367,7 +1290,7 @@ const Hero = forwardRef<HTMLElement, { onContactClick: () => void; }>(({ onConta
             <div className="absolute inset-0 z-0">
                 {[...Array(5)].map((_, i) => (
 // FIX: Replaced single quotes with backticks for template literal style values.
-                    <div key={i} className="absolute w-1 h-1 bg-light-primary dark:bg-dark-primary rounded-full animate-float" style={{
+                    <div key={i} className="absolute w-1 h-1 bg-primary rounded-full animate-float" style={{
                         animationDelay: `${i}s`,
                         top: `${Math.random() * 80 + 10}%`,
                         left: `${Math.random() * 80 + 10}%`,
@@ -375,41 +1298,40 @@ const Hero = forwardRef<HTMLElement, { onContactClick: () => void; }>(({ onConta
                 ))}
             </div>
             <div className="z-10">
-                <h1 className="text-5xl md:text-7xl lg:text-8xl font-extrabold mb-4 bg-gradient-to-r from-light-primary to-blue-400 dark:from-dark-primary dark:to-cyan-400 text-transparent bg-clip-text animate-glow dark:animate-dark-glow">
-                    RAHUL POLIYATH
+                <h1 className="text-5xl md:text-7xl lg:text-8xl font-extrabold mb-4 uppercase bg-gradient-to-r from-primary to-accent text-transparent bg-clip-text animate-glow">
+                    {portfolioProfile.name}
                 </h1>
-                <p className="text-xl md:text-2xl mb-6 text-light-text dark:text-dark-text">
+                <p className="text-xl md:text-2xl mb-6 text-content">
                     <span>{text}</span>
-                    <span className="animate-blink text-light-primary dark:text-dark-primary">|</span>
+                    <span className="animate-blink text-primary">|</span>
                 </p>
-                <p className="max-w-2xl mx-auto mb-8 text-light-text-secondary dark:text-dark-text-secondary">
-                    Crafting innovative web solutions with cutting-edge technologies and a passion for seamless user experiences.
+                <p className="max-w-2xl mx-auto mb-8 text-content-secondary">
+                    {portfolioProfile.tagline}
                 </p>
                 <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
-                    <button onClick={() => setIsResumeOpen(true)} className="w-full sm:w-auto px-8 py-3 bg-light-primary dark:bg-dark-primary text-white font-semibold rounded-lg shadow-lg hover:bg-light-primary-hover dark:hover:bg-dark-primary-hover transform hover:-translate-y-1 transition-all duration-300">
+                    <button onClick={onViewResume} className="w-full sm:w-auto px-8 py-3 bg-primary text-on-primary font-semibold rounded-lg shadow-lg hover:bg-primary-hover transform hover:-translate-y-1 transition-all duration-300">
                         View Resume
                     </button>
-                    <button onClick={onContactClick} className="w-full sm:w-auto px-8 py-3 border-2 border-light-primary dark:border-dark-primary text-light-primary dark:text-dark-primary font-semibold rounded-lg shadow-lg hover:bg-light-primary dark:hover:bg-dark-primary hover:text-white dark:hover:text-dark-bg transform hover:-translate-y-1 transition-all duration-300">
+                    <button onClick={onContactClick} className="w-full sm:w-auto px-8 py-3 border-2 border-primary text-primary font-semibold rounded-lg shadow-lg hover:bg-primary hover:text-on-primary transform hover:-translate-y-1 transition-all duration-300">
                         Contact Me
                     </button>
                 </div>
             </div>
             <div className="absolute bottom-8 left-1/2 -translate-x-1/2">
-                <div className="w-2 h-2 border-2 border-light-primary dark:border-dark-primary rounded-full animate-bounce"></div>
+                <div className="w-2 h-2 border-2 border-primary rounded-full animate-bounce"></div>
             </div>
-            <ResumeModal isOpen={isResumeOpen} onClose={() => setIsResumeOpen(false)} />
         </section>
     );
 });
 
 // components/About.tsx
 const HighlightCard: React.FC<{ icon: string; title: string; description: string }> = ({ icon, title, description }) => (
-    <div className="flex items-start gap-4 p-6 bg-light-surface dark:bg-dark-surface rounded-lg border border-light-border dark:border-dark-border transform hover:-translate-y-1 transition-transform duration-300 shadow-sm hover:shadow-xl">
+    <div className="flex items-start gap-4 p-6 bg-surface rounded-lg border border-line transform hover:-translate-y-1 transition-transform duration-300 shadow-sm hover:shadow-xl">
 {/* FIX: Replaced single quotes with backticks for template literal class name. */}
-        <i className={`fas ${icon} text-2xl text-light-primary dark:text-dark-primary w-8 pt-1`}></i>
+        <i className={`fas ${icon} text-2xl text-primary w-8 pt-1`}></i>
         <div>
-            <h4 className="font-bold text-lg mb-1 text-light-text dark:text-dark-text">{title}</h4>
-            <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary m-0">{description}</p>
+            <h4 className="font-bold text-lg mb-1 text-content">{title}</h4>
+            <p className="text-sm text-content-secondary m-0">{description}</p>
         </div>
     </div>
 );
@@ -418,17 +1340,17 @@ const About = forwardRef<HTMLElement>((props, ref) => (
         <div className="container mx-auto px-4">
             <h2 className="text-3xl md:text-4xl font-bold text-center mb-16 relative">
                 About Me
-                <span className="absolute -bottom-3 left-1/2 -translate-x-1/2 w-20 h-1 bg-gradient-to-r from-light-primary to-blue-400 dark:from-dark-primary dark:to-cyan-400 rounded-full"></span>
+                <span className="absolute -bottom-3 left-1/2 -translate-x-1/2 w-20 h-1 bg-gradient-to-r from-primary to-accent rounded-full"></span>
             </h2>
             <div className="grid md:grid-cols-5 gap-12 items-center">
                 <div className="md:col-span-2 flex justify-center">
-                    <div className="w-48 h-48 md:w-64 md:h-64 rounded-full bg-gradient-to-br from-light-secondary-bg to-blue-100 dark:from-dark-secondary-bg dark:to-cyan-900 flex items-center justify-center border-4 border-light-primary/50 dark:border-dark-primary/50 shadow-lg">
-                        <i className="fas fa-user text-6xl md:text-8xl text-light-primary dark:text-dark-primary"></i>
+                    <div className="w-48 h-48 md:w-64 md:h-64 rounded-full bg-gradient-to-br from-subtle to-accent/20 flex items-center justify-center border-4 border-primary/50 shadow-lg">
+                        <i className="fas fa-user text-6xl md:text-8xl text-primary"></i>
                     </div>
                 </div>
                 <div className="md:col-span-3">
-                    <p className="text-lg text-light-text-secondary dark:text-dark-text-secondary mb-8">
-                        Passionate full stack developer with expertise in building scalable web applications. Specializing in modern JavaScript frameworks, Python, and cloud technologies. Dedicated to creating seamless user experiences and robust backend systems.
+                    <p className="text-lg text-content-secondary mb-8">
+                        {portfolioProfile.about}
                     </p>
                     <div className="grid sm:grid-cols-1 gap-6">
                         <HighlightCard icon="fa-code" title="Clean Code" description="Writing maintainable, scalable, and efficient code is my top priority." />
@@ -443,38 +1365,32 @@ const About = forwardRef<HTMLElement>((props, ref) => (
 
 // components/Skills.tsx
 const SkillCategory: React.FC<{ icon: string; title: string; skills: string[] }> = ({ icon, title, skills }) => (
-    <div className="bg-light-surface dark:bg-dark-surface p-8 rounded-lg border border-light-border dark:border-dark-border transform hover:-translate-y-2 transition-transform duration-300 shadow-sm hover:shadow-xl">
-        <h3 className="flex items-center gap-4 text-xl font-bold mb-6 text-light-text dark:text-dark-text">
+    <div className="bg-surface p-8 rounded-lg border border-line transform hover:-translate-y-2 transition-transform duration-300 shadow-sm hover:shadow-xl">
+        <h3 className="flex items-center gap-4 text-xl font-bold mb-6 text-content">
 {/* FIX: Replaced single quotes with backticks for template literal class name. */}
-            <i className={`fas ${icon} text-2xl text-light-primary dark:text-dark-primary`}></i>
+            <i className={`fas ${icon} text-2xl text-primary`}></i>
             {title}
         </h3>
         <div className="flex flex-wrap gap-2">
             {skills.map(skill => (
-                <span key={skill} className="bg-light-secondary-bg dark:bg-dark-secondary-bg text-light-text-secondary dark:text-dark-text-secondary text-sm font-medium px-4 py-2 rounded-full hover:text-light-primary dark:hover:text-dark-primary transition-colors">
+                <span key={skill} className="bg-subtle text-content-secondary text-sm font-medium px-4 py-2 rounded-full hover:text-primary transition-colors">
                     {skill}
                 </span>
             ))}
         </div>
     </div>
 );
+const skillsData = portfolioProfile.skills;
 const Skills = forwardRef<HTMLElement>((props, ref) => {
-    const skillsData = {
-        frontend: ['HTML5', 'CSS3', 'JavaScript (ES6+)', 'React.js', 'Vue.js', 'C++', 'Tailwind CSS', 'Bootstrap', 'Material UI'],
-        backend: ['Node.js', 'Python', 'Java', 'FastAPI', 'PHP', 'Express.js', 'RESTful APIs', 'GraphQL', 'MySQL', 'DBMS', 'Linux'],
-        tools: ['Git & GitHub', 'Docker', 'VS Code', 'Visual Studio', 'Webpack', 'AWS', 'RedHat5', 'Android', 'KaliLinux', 'Android Studio', 'Aide'],
-    };
     return (
-        <section id="skills" ref={ref} className="py-20 lg:py-32 bg-light-secondary-bg/50 dark:bg-dark-secondary-bg/50">
+        <section id="skills" ref={ref} className="py-20 lg:py-32 bg-subtle/50">
             <div className="container mx-auto px-4">
                 <h2 className="text-3xl md:text-4xl font-bold text-center mb-16 relative">
                     Skills & Technologies
-                    <span className="absolute -bottom-3 left-1/2 -translate-x-1/2 w-20 h-1 bg-gradient-to-r from-light-primary to-blue-400 dark:from-dark-primary dark:to-cyan-400 rounded-full"></span>
+                    <span className="absolute -bottom-3 left-1/2 -translate-x-1/2 w-20 h-1 bg-gradient-to-r from-primary to-accent rounded-full"></span>
                 </h2>
                 <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
-                    <SkillCategory icon="fa-desktop" title="Frontend" skills={skillsData.frontend} />
-                    <SkillCategory icon="fa-server" title="Backend" skills={skillsData.backend} />
-                    <SkillCategory icon="fa-tools" title="Tools & Technologies" skills={skillsData.tools} />
+                    {skillsData.map(group => <SkillCategory key={group.id} icon={group.icon} title={group.title} skills={group.skills} />)}
                 </div>
             </div>
         </section>
@@ -482,142 +1398,362 @@ const Skills = forwardRef<HTMLElement>((props, ref) => {
 });
 
 // components/Projects.tsx
-const projectsData = [
-    { icon: 'fa-chart-bar', title: 'Portfolio Dashboard', description: 'Analytics dashboard for tracking project metrics and performance.', tech: ['Vue.js', 'Chart.js', 'Express', 'PostgreSQL'] },
-    { icon: 'fa-tasks', title: 'Task Management System', description: 'Collaborative project management tool with real-time updates.', tech: ['React', 'Firebase', 'Material-UI'] },
-    { icon: 'fa-cloud-sun', title: 'Weather Forecast App', description: 'Interactive weather application with location-based forecasts.', tech: ['JavaScript', 'Weather API', 'CSS3'] },
-];
-const ProjectCard: React.FC<typeof projectsData[0]> = ({ icon, title, description, tech }) => (
-    <div className="bg-light-surface dark:bg-dark-surface rounded-lg border border-light-border dark:border-dark-border overflow-hidden transform hover:-translate-y-2 transition-transform duration-300 shadow-sm hover:shadow-xl group">
-        <div className="h-48 bg-gradient-to-br from-light-secondary-bg to-blue-100 dark:from-dark-secondary-bg dark:to-cyan-900 flex items-center justify-center relative">
+const projectsData = portfolioProfile.projects;
+const allProjectTech = [...new Set(projectsData.flatMap(project => project.tech))].sort((a, b) => a.localeCompare(b));
+
+type ProjectSort = 'featured' | 'title' | 'tech';
+const projectSortLabels: Record<ProjectSort, string> = {
+    featured: 'Featured',
+    title: 'Name (A-Z)',
+    tech: 'Most technologies',
+};
+
+const matchesProjectQuery = (project: ProjectEntry, query: string) => {
+    const haystack = [project.title, project.description, project.details, project.role, ...project.tech, ...(project.outcomes ?? [])].join(' ').toLowerCase();
+    return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+};
+
+// A project is shown only when it uses every selected technology and matches every word of the search.
+const filterProjects = (projects: ProjectEntry[], { query, tech, sort }: { query: string; tech: string[]; sort: ProjectSort }) => {
+    const filtered = projects.filter(project => tech.every(t => project.tech.includes(t)) && matchesProjectQuery(project, query));
+    if (sort === 'title') return [...filtered].sort((a, b) => a.title.localeCompare(b.title));
+    if (sort === 'tech') return [...filtered].sort((a, b) => b.tech.length - a.tech.length);
+    return filtered;
+};
+
+const TechChip: React.FC<{ label: string; isActive: boolean; onToggle: (tech: string) => void; }> = ({ label, isActive, onToggle }) => (
+    <button
+        type="button"
+        onClick={(e) => { e.stopPropagation(); onToggle(label); }}
+        aria-pressed={isActive}
+        title={isActive ? `Remove the ${label} filter` : `Show projects built with ${label}`}
+        className={`text-xs font-semibold px-3 py-1 rounded-full transition-colors ${isActive ? 'bg-primary text-on-primary' : 'bg-subtle text-primary hover:bg-primary/20'}`}
+    >
+        {label}
+    </button>
+);
+
+const ProjectCard: React.FC<ProjectEntry & { isHighlighted: boolean; activeTech: string[]; onTechToggle: (tech: string) => void; onOpen: () => void; }> = ({ slug, icon, title, description, tech, isHighlighted, activeTech, onTechToggle, onOpen }) => (
+    <div className={`bg-surface rounded-lg border border-line overflow-hidden transform hover:-translate-y-2 transition-all duration-300 shadow-sm hover:shadow-xl group flex flex-col ${isHighlighted ? 'ring-4 ring-primary -translate-y-2 shadow-xl' : ''}`}>
+        <button type="button" onClick={onOpen} className="h-48 w-full bg-gradient-to-br from-subtle to-accent/20 flex items-center justify-center relative" aria-label={`View details for ${title}`}>
 {/* FIX: Replaced single quotes with backticks for template literal class name. */}
-            <i className={`fas ${icon} text-6xl text-light-primary dark:text-dark-primary transition-transform duration-300 group-hover:scale-110`}></i>
-        </div>
-        <div className="p-6">
-            <h3 className="text-xl font-bold mb-2 text-light-text dark:text-dark-text">{title}</h3>
-            <p className="text-light-text-secondary dark:text-dark-text-secondary mb-4 h-16">{description}</p>
+            <i className={`fas ${icon} text-6xl text-primary transition-transform duration-300 group-hover:scale-110`}></i>
+        </button>
+        <div className="p-6 flex flex-col flex-1">
+            <h3 className="text-xl font-bold mb-2 text-content">{title}</h3>
+            <p className="text-content-secondary mb-4 h-16">{description}</p>
             <div className="flex flex-wrap gap-2 mb-4">
-                {tech.map(t => (
-                    <span key={t} className="text-xs font-semibold bg-light-secondary-bg dark:bg-dark-secondary-bg text-light-primary dark:text-dark-primary px-3 py-1 rounded-full">
-                        {t}
-                    </span>
-                ))}
+                {tech.map(t => <TechChip key={t} label={t} isActive={activeTech.includes(t)} onToggle={onTechToggle} />)}
             </div>
+            <a href={formatRoute({ name: 'project', slug })} onClick={(e) => { e.preventDefault(); onOpen(); }} className="mt-auto self-start text-sm font-semibold text-primary hover:underline">
+                View details <i className="fas fa-arrow-right ml-1"></i>
+            </a>
         </div>
     </div>
 );
-const Projects = forwardRef<HTMLElement>((props, ref) => (
-    <section id="projects" ref={ref} className="py-20 lg:py-32">
-        <div className="container mx-auto px-4">
-            <h2 className="text-3xl md:text-4xl font-bold text-center mb-16 relative">
-                Featured Projects
-                <span className="absolute -bottom-3 left-1/2 -translate-x-1/2 w-20 h-1 bg-gradient-to-r from-light-primary to-blue-400 dark:from-dark-primary dark:to-cyan-400 rounded-full"></span>
-            </h2>
-            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
-                {projectsData.map(p => <ProjectCard key={p.title} {...p} />)}
+
+const Projects = forwardRef<HTMLElement, { highlightedProject: string | null; onOpenProject: (slug: string) => void; }>(({ highlightedProject, onOpenProject }, ref) => {
+    const [query, setQuery] = useState('');
+    const [activeTech, setActiveTech] = useState<string[]>([]);
+    const [sort, setSort] = useState<ProjectSort>('featured');
+
+    // A project highlighted by the assistant must be visible, so its filters give way.
+    useEffect(() => {
+        if (!highlightedProject) return;
+        setQuery('');
+        setActiveTech([]);
+    }, [highlightedProject]);
+
+    const toggleTech = (tech: string) => setActiveTech(prev => (prev.includes(tech) ? prev.filter(t => t !== tech) : [...prev, tech]));
+    const clearFilters = () => {
+        setQuery('');
+        setActiveTech([]);
+    };
+
+    const visibleProjects = useMemo(() => filterProjects(projectsData, { query, tech: activeTech, sort }), [query, activeTech, sort]);
+    const isFiltered = query.trim() !== '' || activeTech.length > 0;
+
+    return (
+        <section id="projects" ref={ref} className="py-20 lg:py-32">
+            <div className="container mx-auto px-4">
+                <h2 className="text-3xl md:text-4xl font-bold text-center mb-16 relative">
+                    Featured Projects
+                    <span className="absolute -bottom-3 left-1/2 -translate-x-1/2 w-20 h-1 bg-gradient-to-r from-primary to-accent rounded-full"></span>
+                </h2>
+                <div className="mb-8 space-y-4">
+                    <div className="flex flex-col sm:flex-row gap-4">
+                        <div className="relative flex-1">
+                            <i className="fas fa-search absolute left-4 top-1/2 -translate-y-1/2 text-content-secondary"></i>
+                            <input
+                                type="search"
+                                value={query}
+                                onChange={(e) => setQuery(e.target.value)}
+                                placeholder="Search projects..."
+                                aria-label="Search projects"
+                                className="w-full pl-11 pr-4 py-2 rounded-lg bg-surface border border-line focus:outline-none focus:ring-2 focus:ring-primary"
+                            />
+                        </div>
+                        <label className="flex items-center gap-2 text-sm text-content-secondary">
+                            Sort by
+                            <select
+                                value={sort}
+                                onChange={(e) => setSort(e.target.value as ProjectSort)}
+                                className="px-3 py-2 rounded-lg bg-surface border border-line text-content focus:outline-none focus:ring-2 focus:ring-primary"
+                            >
+                                {(Object.keys(projectSortLabels) as ProjectSort[]).map(option => <option key={option} value={option}>{projectSortLabels[option]}</option>)}
+                            </select>
+                        </label>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Filter by technology">
+                        {allProjectTech.map(t => <TechChip key={t} label={t} isActive={activeTech.includes(t)} onToggle={toggleTech} />)}
+                        {isFiltered && (
+                            <button type="button" onClick={clearFilters} className="text-xs font-semibold text-content-secondary hover:text-red-500 px-2">
+                                <i className="fas fa-times mr-1"></i>Clear filters
+                            </button>
+                        )}
+                    </div>
+                    <p className="text-sm text-content-secondary" aria-live="polite">
+                        {isFiltered ? `Showing ${visibleProjects.length} of ${projectsData.length} projects` : `${projectsData.length} projects`}
+                    </p>
+                </div>
+                {visibleProjects.length > 0 ? (
+                    <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+                        {visibleProjects.map(p => (
+                            <ProjectCard key={p.slug} {...p} isHighlighted={p.title === highlightedProject} activeTech={activeTech} onTechToggle={toggleTech} onOpen={() => onOpenProject(p.slug)} />
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-center text-content-secondary py-12">
+                        No projects match these filters. <button type="button" onClick={clearFilters} className="text-primary underline">Clear filters</button>
+                    </p>
+                )}
             </div>
-        </div>
-    </section>
-));
+        </section>
+    );
+});
+
+// components/ProjectModal.tsx
+const ProjectModal: React.FC<{ project: ProjectEntry | null; onClose: () => void; }> = ({ project, onClose }) => {
+    const titleId = useId();
+
+    return (
+        <Dialog isOpen={project !== null} onClose={onClose} labelledBy={titleId} className="max-w-2xl">
+            {project && (<>
+                <div className="p-4 flex justify-between items-center border-b border-line">
+                    <h2 id={titleId} className="text-lg font-bold flex items-center gap-3">
+                        <i className={`fas ${project.icon} text-primary`} aria-hidden="true"></i>
+                        {project.title}
+                    </h2>
+                    <button onClick={onClose} className="text-content-secondary hover:text-red-500" aria-label="Close project details"><i className="fas fa-times" aria-hidden="true"></i></button>
+                </div>
+                <div className="p-6 overflow-y-auto space-y-6">
+                    {project.images?.length ? (
+                        <div className="grid gap-4 sm:grid-cols-2">
+                            {project.images.map(image => <img key={image.src} src={image.src} alt={image.alt} loading="lazy" className="w-full rounded-lg border border-line" />)}
+                        </div>
+                    ) : null}
+                    {project.role && <p className="text-sm font-semibold text-primary">{project.role}</p>}
+                    <p className="text-content-secondary">{project.details ?? project.description}</p>
+                    {project.outcomes?.length ? (
+                        <div>
+                            <h3 className="font-bold mb-2">Outcomes</h3>
+                            <ul className="list-disc pl-5 space-y-1 text-content-secondary">
+                                {project.outcomes.map(outcome => <li key={outcome}>{outcome}</li>)}
+                            </ul>
+                        </div>
+                    ) : null}
+                    {project.tech.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                            {project.tech.map(t => (
+                                <span key={t} className="text-xs font-semibold bg-subtle text-primary px-3 py-1 rounded-full">{t}</span>
+                            ))}
+                        </div>
+                    )}
+                    {(project.repoUrl || project.demoUrl) && (
+                        <div className="flex flex-wrap gap-4">
+                            {project.demoUrl && (
+                                <a href={project.demoUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-2 px-5 py-2 bg-primary text-on-primary font-semibold rounded-lg hover:bg-primary-hover transition-colors">
+                                    <i className="fas fa-external-link-alt"></i> Live demo
+                                </a>
+                            )}
+                            {project.repoUrl && (
+                                <a href={project.repoUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-2 px-5 py-2 border-2 border-primary text-primary font-semibold rounded-lg hover:bg-primary hover:text-on-primary transition-colors">
+                                    <i className="fab fa-github"></i> Source code
+                                </a>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </>)}
+        </Dialog>
+    );
+};
 
 // components/Resume.tsx
-const Resume = forwardRef<HTMLElement>((props, ref) => {
-    const [isModalOpen, setIsModalOpen] = useState(false);
+const Resume = forwardRef<HTMLElement, { onViewResume: () => void; }>(({ onViewResume }, ref) => {
     return (
-        <section id="resume" ref={ref} className="py-20 lg:py-32 bg-light-secondary-bg/50 dark:bg-dark-secondary-bg/50">
+        <section id="resume" ref={ref} className="py-20 lg:py-32 bg-subtle/50">
             <div className="container mx-auto px-4 text-center">
                 <h2 className="text-3xl md:text-4xl font-bold text-center mb-16 relative">
                     Resume
-                    <span className="absolute -bottom-3 left-1/2 -translate-x-1/2 w-20 h-1 bg-gradient-to-r from-light-primary to-blue-400 dark:from-dark-primary dark:to-cyan-400 rounded-full"></span>
+                    <span className="absolute -bottom-3 left-1/2 -translate-x-1/2 w-20 h-1 bg-gradient-to-r from-primary to-accent rounded-full"></span>
                 </h2>
                 <div className="flex flex-col sm:flex-row items-center justify-center gap-6">
-                     <button onClick={() => setIsModalOpen(true)} className="w-full sm:w-auto flex items-center justify-center gap-3 px-8 py-4 bg-light-primary dark:bg-dark-primary text-white font-semibold rounded-lg shadow-lg hover:bg-light-primary-hover dark:hover:bg-dark-primary-hover transform hover:-translate-y-1 transition-all duration-300 text-lg">
+                     <button onClick={onViewResume} className="w-full sm:w-auto flex items-center justify-center gap-3 px-8 py-4 bg-primary text-on-primary font-semibold rounded-lg shadow-lg hover:bg-primary-hover transform hover:-translate-y-1 transition-all duration-300 text-lg">
                         <i className="fas fa-eye"></i>
                         View Resume Online
                     </button>
-                    <button onClick={() => setIsModalOpen(true)} className="w-full sm:w-auto flex items-center justify-center gap-3 px-8 py-4 border-2 border-light-primary dark:border-dark-primary text-light-primary dark:text-dark-primary font-semibold rounded-lg shadow-lg hover:bg-light-primary dark:hover:bg-dark-primary hover:text-white dark:hover:text-dark-bg transform hover:-translate-y-1 transition-all duration-300 text-lg">
+                    <button onClick={() => downloadResume('pdf')} className="w-full sm:w-auto flex items-center justify-center gap-3 px-8 py-4 border-2 border-primary text-primary font-semibold rounded-lg shadow-lg hover:bg-primary hover:text-on-primary transform hover:-translate-y-1 transition-all duration-300 text-lg">
                         <i className="fas fa-download"></i>
                         Download Resume
                     </button>
                 </div>
+                <p className="mt-6 text-sm text-content-secondary">
+                    Also available as{' '}
+                    <button onClick={() => downloadResume('json')} className="underline hover:text-primary">JSON Resume</button>
+                    {' '}and{' '}
+                    <button onClick={() => downloadResume('txt')} className="underline hover:text-primary">plain text (ATS-friendly)</button>.
+                </p>
             </div>
-            <ResumeModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} />
         </section>
     );
 });
 
 // components/Contact.tsx
-const SocialLink: React.FC<{ href: string; icon: string }> = ({ href, icon }) => (
-    <a href={href} target="_blank" rel="noopener noreferrer" className="w-12 h-12 flex items-center justify-center bg-light-surface dark:bg-dark-surface border border-light-border dark:border-dark-border rounded-lg text-light-text-secondary dark:text-dark-text-secondary hover:bg-light-primary dark:hover:bg-dark-primary hover:text-white dark:hover:text-dark-bg transform hover:-translate-y-1 transition-all duration-300">
+const SocialLink: React.FC<{ href: string; icon: string; label: string }> = ({ href, icon, label }) => (
+    <a href={href} aria-label={label} target="_blank" rel="noopener noreferrer" className="w-12 h-12 flex items-center justify-center bg-surface border border-line rounded-lg text-content-secondary hover:bg-primary hover:text-on-primary transform hover:-translate-y-1 transition-all duration-300">
 {/* FIX: Replaced single quotes with backticks for template literal class name. */}
         <i className={`fab ${icon} text-xl`}></i>
     </a>
 );
-const Contact = forwardRef<HTMLElement>((props, ref) => {
-    const [status, setStatus] = useState<'idle' | 'sending' | 'sent'>('idle');
-    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+const emptyContactFields = { name: '', email: '', subject: '', message: '', website: '' };
+
+const Contact = forwardRef<HTMLElement, { draft: ContactDraft | null; }>(({ draft }, ref) => {
+    const [status, setStatus] = useState<'idle' | 'sending' | 'sent' | 'error'>('idle');
+    const [fields, setFields] = useState(emptyContactFields);
+    const [fieldErrors, setFieldErrors] = useState<ContactFieldErrors>({});
+    const [submitError, setSubmitError] = useState('');
+    const [isPrefilled, setIsPrefilled] = useState(false);
+
+    // The assistant can prefill the form; the visitor still reviews and sends it themselves.
+    useEffect(() => {
+        if (!draft) return;
+        setFields(prev => ({ ...prev, ...Object.fromEntries(Object.entries(draft).filter(([, value]) => value)) }));
+        setIsPrefilled(true);
+    }, [draft]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        const field = e.target.name as keyof typeof fields;
+        setFields(prev => ({ ...prev, [field]: e.target.value }));
+        setFieldErrors(prev => ({ ...prev, [field]: undefined }));
+    };
+
+    const handleBlur = (e: React.FocusEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        const field = e.target.name as keyof ContactFieldErrors;
+        if (!fields[field]) return;
+        setFieldErrors(prev => ({ ...prev, [field]: validateContactSubmission(fields)[field] }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
         e.preventDefault();
+        const errors = validateContactSubmission(fields);
+        setFieldErrors(errors);
+        if (Object.keys(errors).length) return;
+
         setStatus('sending');
-        setTimeout(() => {
+        setSubmitError('');
+        try {
+            await submitContactForm(fields);
+            trackEvent({ type: 'contact_submit', detail: 'sent' });
             setStatus('sent');
-            (e.target as HTMLFormElement).reset();
+            setFields(emptyContactFields);
+            setIsPrefilled(false);
             setTimeout(() => setStatus('idle'), 3000);
-        }, 2000);
+        } catch (error) {
+            const submissionError = error instanceof ContactSubmissionError ? error : new ContactSubmissionError('Something went wrong while sending your message.');
+            setFieldErrors(submissionError.fieldErrors);
+            setSubmitError(submissionError.message);
+            setStatus('error');
+            trackEvent({ type: 'contact_submit', detail: 'error' });
+        }
     };
+
+    const inputClass = (field: keyof ContactFieldErrors) => `w-full p-3 bg-subtle/50 border ${fieldErrors[field] ? 'border-red-500' : 'border-line'} rounded-lg focus:ring-2 focus:ring-primary focus:outline-none`;
+    const fieldError = (field: keyof ContactFieldErrors) => fieldErrors[field] && (
+        <p id={`${field}-error`} className="mt-1 text-sm text-red-500">{fieldErrors[field]}</p>
+    );
     const buttonText = {
         idle: <><i className="fas fa-paper-plane mr-2"></i>Send Message</>,
         sending: <><div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>Sending...</>,
         sent: <><i className="fas fa-check mr-2"></i>Message Sent!</>,
+        error: <><i className="fas fa-redo mr-2"></i>Try Again</>,
     };
     return (
         <section id="contact" ref={ref} className="py-20 lg:py-32">
             <div className="container mx-auto px-4">
                 <h2 className="text-3xl md:text-4xl font-bold text-center mb-16 relative">
                     Get In Touch
-                    <span className="absolute -bottom-3 left-1/2 -translate-x-1/2 w-20 h-1 bg-gradient-to-r from-light-primary to-blue-400 dark:from-dark-primary dark:to-cyan-400 rounded-full"></span>
+                    <span className="absolute -bottom-3 left-1/2 -translate-x-1/2 w-20 h-1 bg-gradient-to-r from-primary to-accent rounded-full"></span>
                 </h2>
                 <div className="grid lg:grid-cols-5 gap-12">
-                    <div className="lg:col-span-3 bg-light-surface dark:bg-dark-surface p-8 rounded-lg border border-light-border dark:border-dark-border shadow-lg">
-                        <form onSubmit={handleSubmit}>
+                    <div className="lg:col-span-3 bg-surface p-8 rounded-lg border border-line shadow-lg">
+                        <form onSubmit={handleSubmit} noValidate>
+                            {isPrefilled && (
+                                <p className="mb-6 p-3 rounded-lg text-sm bg-subtle text-content-secondary">
+                                    <i className="fas fa-robot mr-2 text-primary"></i>
+                                    The assistant filled this in for you. Review it and press Send when you're happy with it.
+                                </p>
+                            )}
                             <div className="grid sm:grid-cols-2 gap-6 mb-6">
                                 <div>
                                     <label htmlFor="name" className="block text-sm font-medium mb-2">Name</label>
-                                    <input type="text" id="name" required className="w-full p-3 bg-light-secondary-bg/50 dark:bg-dark-secondary-bg/50 border border-light-border dark:border-dark-border rounded-lg focus:ring-2 focus:ring-light-primary dark:focus:ring-dark-primary focus:outline-none" />
+                                    <input type="text" id="name" name="name" value={fields.name} onChange={handleChange} onBlur={handleBlur} required aria-invalid={!!fieldErrors.name} aria-describedby={fieldErrors.name ? 'name-error' : undefined} className={inputClass('name')} />
+                                    {fieldError('name')}
                                 </div>
                                 <div>
                                     <label htmlFor="email" className="block text-sm font-medium mb-2">Email</label>
-                                    <input type="email" id="email" required className="w-full p-3 bg-light-secondary-bg/50 dark:bg-dark-secondary-bg/50 border border-light-border dark:border-dark-border rounded-lg focus:ring-2 focus:ring-light-primary dark:focus:ring-dark-primary focus:outline-none" />
+                                    <input type="email" id="email" name="email" value={fields.email} onChange={handleChange} onBlur={handleBlur} required aria-invalid={!!fieldErrors.email} aria-describedby={fieldErrors.email ? 'email-error' : undefined} className={inputClass('email')} />
+                                    {fieldError('email')}
                                 </div>
                             </div>
                             <div className="mb-6">
                                 <label htmlFor="subject" className="block text-sm font-medium mb-2">Subject</label>
-                                <input type="text" id="subject" required className="w-full p-3 bg-light-secondary-bg/50 dark:bg-dark-secondary-bg/50 border border-light-border dark:border-dark-border rounded-lg focus:ring-2 focus:ring-light-primary dark:focus:ring-dark-primary focus:outline-none" />
+                                <input type="text" id="subject" name="subject" value={fields.subject} onChange={handleChange} onBlur={handleBlur} required aria-invalid={!!fieldErrors.subject} aria-describedby={fieldErrors.subject ? 'subject-error' : undefined} className={inputClass('subject')} />
+                                {fieldError('subject')}
                             </div>
                             <div className="mb-6">
                                 <label htmlFor="message" className="block text-sm font-medium mb-2">Message</label>
-                                <textarea id="message" rows={5} required className="w-full p-3 bg-light-secondary-bg/50 dark:bg-dark-secondary-bg/50 border border-light-border dark:border-dark-border rounded-lg resize-none focus:ring-2 focus:ring-light-primary dark:focus:ring-dark-primary focus:outline-none"></textarea>
+                                <textarea id="message" name="message" rows={5} value={fields.message} onChange={handleChange} onBlur={handleBlur} required aria-invalid={!!fieldErrors.message} aria-describedby={fieldErrors.message ? 'message-error' : undefined} className={`${inputClass('message')} resize-none`}></textarea>
+                                {fieldError('message')}
+                            </div>
+                            {/* Honeypot: hidden from people and assistive tech, but bots tend to fill it in. */}
+                            <div className="absolute -left-[10000px] w-px h-px overflow-hidden" aria-hidden="true">
+                                <label htmlFor="website">Website</label>
+                                <input type="text" id="website" name="website" value={fields.website} onChange={handleChange} tabIndex={-1} autoComplete="off" />
                             </div>
+                            {status === 'error' && (
+                                <p role="alert" className="mb-6 p-3 rounded-lg text-sm bg-red-500/10 text-red-500">
+                                    <i className="fas fa-exclamation-circle mr-2"></i>{submitError}
+                                </p>
+                            )}
 {/* FIX: Replaced single quotes with backticks for template literal class name. */}
-                            <button type="submit" disabled={status === 'sending'} className={`w-full p-4 font-semibold rounded-lg transition-all duration-300 flex items-center justify-center ${status === 'sent' ? 'bg-green-500' : 'bg-light-primary dark:bg-dark-primary hover:bg-light-primary-hover dark:hover:bg-dark-primary-hover'} text-white`}>
+                            <button type="submit" disabled={status === 'sending'} className={`w-full p-4 font-semibold rounded-lg transition-all duration-300 flex items-center justify-center ${status === 'sent' ? 'bg-green-500' : 'bg-primary hover:bg-primary-hover'} text-white`}>
                                 {buttonText[status]}
                             </button>
                         </form>
                     </div>
                     <div className="lg:col-span-2">
                         <div className="flex items-start gap-4 mb-8">
-                            <i className="fas fa-envelope text-2xl text-light-primary dark:text-dark-primary mt-1"></i>
+                            <i className="fas fa-envelope text-2xl text-primary mt-1"></i>
                             <div>
-                                <h4 className="font-bold text-lg text-light-text dark:text-dark-text">Email</h4>
-                                <p className="text-light-text-secondary dark:text-dark-text-secondary">rahul.poliyath@email.com</p>
+                                <h4 className="font-bold text-lg text-content">Email</h4>
+                                <a href={`mailto:${portfolioProfile.contact.email}`} className="text-content-secondary hover:text-primary">{portfolioProfile.contact.email}</a>
                             </div>
                         </div>
                         <div>
-                            <h4 className="font-bold text-lg text-light-text dark:text-dark-text mb-4">Connect With Me</h4>
+                            <h4 className="font-bold text-lg text-content mb-4">Connect With Me</h4>
                             <div className="flex flex-wrap gap-4">
-                                <SocialLink href="https://github.com/rahulpoliyath" icon="fa-github" />
-                                <SocialLink href="https://linkedin.com/in/rahulpoliyath" icon="fa-linkedin" />
-                                <SocialLink href="https://t.me/realanonymoususer" icon="fa-telegram" />
-                                <SocialLink href="https://wa.me/rahulpoliyath" icon="fa-whatsapp" />
+                                {portfolioProfile.contact.links.map(link => <SocialLink key={link.href} href={link.href} icon={link.icon} label={link.label} />)}
                             </div>
                         </div>
                     </div>
@@ -628,22 +1764,44 @@ const Contact = forwardRef<HTMLElement>((props, ref) => {
 });
 
 // components/Footer.tsx
+const AnalyticsPreference: React.FC = () => {
+    const [isOptedOut, setIsOptedOut] = useState(isAnalyticsOptedOut);
+
+    if (isDoNotTrackEnabled()) {
+        return <p>Anonymous analytics are off because your browser sends Do Not Track.</p>;
+    }
+
+    const toggle = () => {
+        setAnalyticsOptOut(!isOptedOut);
+        setIsOptedOut(!isOptedOut);
+    };
+
+    return (
+        <p>
+            {isOptedOut ? 'Anonymous analytics are off.' : 'This site counts page sections viewed and keeps the text of questions asked to the chatbot, without cookies or personal data.'}{' '}
+            <button type="button" onClick={toggle} className="underline hover:text-primary">
+                {isOptedOut ? 'Turn back on' : 'Opt out'}
+            </button>
+        </p>
+    );
+};
+
 const Footer: React.FC<{ onNavClick: (sectionId: string) => void; }> = ({ onNavClick }) => {
     return (
-        <footer className="bg-light-surface dark:bg-dark-surface border-t border-light-border dark:border-dark-border">
+        <footer className="bg-surface border-t border-line">
             <div className="container mx-auto px-4 py-12">
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-8 text-center md:text-left">
                     <div>
-                        <h3 className="text-xl font-bold bg-gradient-to-r from-light-primary to-blue-400 dark:from-dark-primary dark:to-cyan-400 text-transparent bg-clip-text mb-2">RAHUL POLIYATH</h3>
-                        <p className="text-light-text-secondary dark:text-dark-text-secondary text-sm">Full Stack Developer</p>
+                        <h3 className="text-xl font-bold uppercase bg-gradient-to-r from-primary to-accent text-transparent bg-clip-text mb-2">{portfolioProfile.name}</h3>
+                        <p className="text-content-secondary text-sm">{portfolioProfile.title}</p>
                     </div>
                     <div>
-                        <h4 className="font-bold mb-4 text-light-text dark:text-dark-text">Quick Links</h4>
+                        <h4 className="font-bold mb-4 text-content">Quick Links</h4>
                         <ul className="space-y-2">
                             {['home', 'about', 'projects', 'contact'].map(id => (
                                 <li key={id}>
 {/* FIX: Replaced single quotes with backticks for template literal href. */}
-                                    <a href={`#${id}`} onClick={(e) => { e.preventDefault(); onNavClick(id); }} className="capitalize text-light-text-secondary dark:text-dark-text-secondary hover:text-light-primary dark:hover:text-dark-primary transition-colors">
+                                    <a href={`#${id}`} onClick={(e) => { e.preventDefault(); onNavClick(id); }} className="capitalize text-content-secondary hover:text-primary transition-colors">
                                         {id}
                                     </a>
                                 </li>
@@ -651,31 +1809,597 @@ const Footer: React.FC<{ onNavClick: (sectionId: string) => void; }> = ({ onNavC
                         </ul>
                     </div>
                     <div>
-                        <h4 className="font-bold mb-4 text-light-text dark:text-dark-text">Follow Me</h4>
+                        <h4 className="font-bold mb-4 text-content">Follow Me</h4>
                         <div className="flex justify-center md:justify-start gap-4">
-                             <a href="https://github.com/rahulpoliyath" target="_blank" rel="noopener noreferrer" className="text-light-text-secondary dark:text-dark-text-secondary hover:text-light-primary dark:hover:text-dark-primary transition-colors text-2xl"><i className="fab fa-github"></i></a>
-                             <a href="https://linkedin.com/in/rahulpoliyath" target="_blank" rel="noopener noreferrer" className="text-light-text-secondary dark:text-dark-text-secondary hover:text-light-primary dark:hover:text-dark-primary transition-colors text-2xl"><i className="fab fa-linkedin"></i></a>
-                             <a href="https://t.me/realanonymoususer" target="_blank" rel="noopener noreferrer" className="text-light-text-secondary dark:text-dark-text-secondary hover:text-light-primary dark:hover:text-dark-primary transition-colors text-2xl"><i className="fab fa-telegram"></i></a>
+                             {portfolioProfile.contact.links.map(link => (
+                                 <a key={link.href} href={link.href} aria-label={link.label} target="_blank" rel="noopener noreferrer" className="text-content-secondary hover:text-primary transition-colors text-2xl"><i className={`fab ${link.icon}`}></i></a>
+                             ))}
                         </div>
                     </div>
                 </div>
-                <div className="mt-12 pt-8 border-t border-light-border dark:border-dark-border text-center text-sm text-light-text-secondary dark:text-dark-text-secondary">
-                    <p>&copy; {new Date().getFullYear()} Rahul Poliyath. All rights reserved.</p>
+                <div className="mt-12 pt-8 border-t border-line text-center text-sm text-content-secondary">
+                    <p>&copy; {new Date().getFullYear()} {portfolioProfile.name}. All rights reserved.</p>
+                    <div className="mt-2 text-xs">
+                        <AnalyticsPreference />
+                    </div>
                 </div>
             </div>
         </footer>
     );
 };
 
+// components/MarkdownMessage.tsx
+// `copied` stays true for two seconds after a successful copy, for the buttons' "Copied" state.
+const useCopyToClipboard = (): [boolean, (text: string) => Promise<void>] => {
+    const [copied, setCopied] = useState(false);
+    const copy = async (text: string) => {
+        try {
+            await navigator.clipboard.writeText(text);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (error) {
+            console.error('Failed to copy:', error);
+        }
+    };
+    return [copied, copy];
+};
+
+const CodeBlock: React.FC<{ language?: string; code: string }> = ({ language, code }) => {
+    const [copied, copy] = useCopyToClipboard();
+    // highlight.js escapes the source, so its output is safe to inject.
+    const highlighted = useMemo(() => (
+        language && hljs.getLanguage(language)
+            ? hljs.highlight(code, { language }).value
+            : hljs.highlightAuto(code).value
+    ), [language, code]);
+
+    return (
+        <div className="my-2 rounded-lg overflow-hidden border border-line">
+            <div className="flex items-center justify-between px-3 py-1 bg-black/80 text-xs text-gray-300">
+                <span className="font-mono">{language ?? 'code'}</span>
+                <button onClick={() => copy(code)} className="hover:text-white" aria-label="Copy code">
+                    <i className={`fas ${copied ? 'fa-check' : 'fa-copy'} mr-1`}></i>{copied ? 'Copied' : 'Copy'}
+                </button>
+            </div>
+            <pre className="m-0 overflow-x-auto text-xs"><code className="hljs block p-3" dangerouslySetInnerHTML={{ __html: highlighted }} /></pre>
+        </div>
+    );
+};
+
+const getNodeText = (node: ElementContent): string => (
+    node.type === 'text' ? node.value : 'children' in node ? node.children.map(getNodeText).join('') : ''
+);
+
+const markdownComponents: Components = {
+    a: ({ href, children }) => (
+        <a href={href} target="_blank" rel="noopener noreferrer nofollow" className="text-primary underline break-words">{children}</a>
+    ),
+    p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+    ul: ({ children }) => <ul className="list-disc pl-5 mb-2 space-y-1">{children}</ul>,
+    ol: ({ children }) => <ol className="list-decimal pl-5 mb-2 space-y-1">{children}</ol>,
+    h1: ({ children }) => <h4 className="font-bold mb-2">{children}</h4>,
+    h2: ({ children }) => <h4 className="font-bold mb-2">{children}</h4>,
+    h3: ({ children }) => <h5 className="font-semibold mb-1">{children}</h5>,
+    blockquote: ({ children }) => <blockquote className="border-l-4 border-primary pl-3 italic mb-2">{children}</blockquote>,
+    table: ({ children }) => <div className="overflow-x-auto mb-2"><table className="text-xs border-collapse">{children}</table></div>,
+    th: ({ children }) => <th className="border border-line px-2 py-1 text-left font-semibold">{children}</th>,
+    td: ({ children }) => <td className="border border-line px-2 py-1">{children}</td>,
+    // Fenced blocks are rendered whole from the <pre> node so `code` below only ever sees inline code.
+    pre: ({ node }) => {
+        const codeNode = node?.children[0] as Element | undefined;
+        const className = codeNode?.properties?.className;
+        const languageClass = Array.isArray(className) ? className.find(name => String(name).startsWith('language-')) : undefined;
+        return <CodeBlock language={languageClass ? String(languageClass).slice('language-'.length) : undefined} code={codeNode ? getNodeText(codeNode).replace(/\n$/, '') : ''} />;
+    },
+    code: ({ children }) => <code className="px-1 py-0.5 rounded bg-black/10 dark:bg-white/10 font-mono text-xs">{children}</code>,
+};
+
+// Bot replies are Markdown. Raw HTML is dropped (skipHtml) and react-markdown's default URL
+// transform strips javascript: and other unsafe link targets.
+const MarkdownMessage: React.FC<{ text: string }> = ({ text }) => (
+    <div className="text-sm leading-relaxed break-words">
+        <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents} skipHtml>
+            {text}
+        </ReactMarkdown>
+    </div>
+);
+
+// components/ChatTranscriptMenu.tsx
+const TRANSCRIPT_FORMATS: { id: TranscriptFormat; label: string; icon: string }[] = [
+    { id: 'md', label: 'Markdown', icon: 'fa-file-alt' },
+    { id: 'json', label: 'JSON', icon: 'fa-file-code' },
+    { id: 'pdf', label: 'PDF', icon: 'fa-file-pdf' },
+];
+
+const ChatTranscriptMenu: React.FC<{ messages: Message[]; onSend: () => void; }> = ({ messages, onSend }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const buttonRef = useRef<HTMLButtonElement>(null);
+    const panelId = useId();
+    const hasConversation = toChatTurns(messages).length > 0;
+
+    useEffect(() => {
+        if (!isOpen) return;
+        containerRef.current?.querySelector<HTMLButtonElement>('ul button')?.focus();
+        const handlePointerDown = (event: PointerEvent) => {
+            if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('pointerdown', handlePointerDown);
+        return () => document.removeEventListener('pointerdown', handlePointerDown);
+    }, [isOpen]);
+
+    const handleKeyDown = (event: React.KeyboardEvent) => {
+        if (event.key !== 'Escape' || !isOpen) return;
+        event.stopPropagation();
+        setIsOpen(false);
+        buttonRef.current?.focus();
+    };
+
+    const handleBlur = (event: React.FocusEvent) => {
+        if (!containerRef.current?.contains(event.relatedTarget as Node | null)) setIsOpen(false);
+    };
+
+    const choose = (action: () => void) => {
+        setIsOpen(false);
+        action();
+    };
+
+    const itemClassName = 'w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-sm text-left text-content hover:bg-subtle focus:outline-none focus-visible:ring-2 focus-visible:ring-primary';
+
+    return (
+        <div ref={containerRef} className="relative" onKeyDown={handleKeyDown} onBlur={handleBlur}>
+            <button
+                ref={buttonRef}
+                onClick={() => setIsOpen(!isOpen)}
+                disabled={!hasConversation}
+                className="w-8 h-8 rounded-lg text-content-secondary hover:text-primary hover:bg-subtle disabled:opacity-40 disabled:pointer-events-none"
+                aria-label="Save or share conversation"
+                title="Save or share conversation"
+                aria-expanded={isOpen}
+                aria-controls={panelId}
+            >
+                <i className="fas fa-share-square" aria-hidden="true"></i>
+            </button>
+            {isOpen && (
+                <div id={panelId} className="absolute right-0 mt-2 w-56 p-2 bg-surface border border-line rounded-lg shadow-xl z-10">
+                    <p className="px-2 pb-1 text-xs font-semibold uppercase tracking-wide text-content-secondary">Download</p>
+                    <ul>
+                        {TRANSCRIPT_FORMATS.map(format => (
+                            <li key={format.id}>
+                                <button onClick={() => choose(() => downloadTranscript(messages, format.id))} className={itemClassName}>
+                                    <i className={`fas ${format.icon} w-4 text-primary`} aria-hidden="true"></i>{format.label}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="my-2 border-t border-line"></div>
+                    <button onClick={() => choose(onSend)} className={itemClassName}>
+                        <i className="fas fa-paper-plane w-4 text-primary" aria-hidden="true"></i>Send to {portfolioProfile.name.split(' ')[0]}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// components/SendToOwnerDialog.tsx
+// Contact form in a dialog around a drafted message: the draft is loaded on open and stays editable,
+// so the visitor decides exactly what is sent.
+interface SendToOwnerDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    title: string;
+    subject: string;
+    messageLabel: string;
+    loadingText: string;
+    hint: string;
+    // Reported with contact_submit, so the dashboard tells these apart from the contact form.
+    trackingDetail: string;
+    loadMessage: () => Promise<string>;
+}
+
+const SendToOwnerDialog: React.FC<SendToOwnerDialogProps> = ({ isOpen, onClose, title, subject, messageLabel, loadingText, hint, trackingDetail, loadMessage }) => {
+    const [fields, setFields] = useState({ name: '', email: '', message: '' });
+    const [status, setStatus] = useState<'loading' | 'idle' | 'sending' | 'sent' | 'error'>('loading');
+    const [fieldErrors, setFieldErrors] = useState<ContactFieldErrors>({});
+    const [submitError, setSubmitError] = useState('');
+    const titleId = useId();
+    const fieldId = useId();
+    const firstName = portfolioProfile.name.split(' ')[0];
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let isCurrent = true;
+        setStatus('loading');
+        setFieldErrors({});
+        loadMessage().then(message => {
+            if (!isCurrent) return;
+            setFields(prev => ({ ...prev, message }));
+            setStatus('idle');
+        }).catch(error => {
+            // Without a draft the form still works; the visitor writes the message instead.
+            console.error('Failed to draft the message:', error);
+            if (!isCurrent) return;
+            setSubmitError("Couldn't draft the message. Please write it yourself below.");
+            setStatus('error');
+        });
+        return () => { isCurrent = false; };
+    }, [isOpen]);
+
+    const submission = () => ({ name: fields.name, email: fields.email, subject, message: fields.message, website: '' });
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        const field = e.target.name as keyof typeof fields;
+        setFields(prev => ({ ...prev, [field]: e.target.value }));
+        setFieldErrors(prev => ({ ...prev, [field]: undefined }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const errors = validateContactSubmission(submission());
+        setFieldErrors(errors);
+        if (Object.keys(errors).length) return;
+
+        setStatus('sending');
+        setSubmitError('');
+        try {
+            await submitContactForm(submission());
+            trackEvent({ type: 'contact_submit', detail: trackingDetail });
+            setStatus('sent');
+        } catch (error) {
+            const submissionError = error instanceof ContactSubmissionError ? error : new ContactSubmissionError('Something went wrong while sending your message.');
+            setFieldErrors(submissionError.fieldErrors);
+            setSubmitError(submissionError.message);
+            setStatus('error');
+            trackEvent({ type: 'contact_submit', detail: 'error' });
+        }
+    };
+
+    const inputClass = (field: keyof ContactFieldErrors) => `w-full p-3 bg-subtle/50 border ${fieldErrors[field] ? 'border-red-500' : 'border-line'} rounded-lg focus:ring-2 focus:ring-primary focus:outline-none`;
+    const fieldError = (field: keyof ContactFieldErrors) => fieldErrors[field] && (
+        <p id={`${fieldId}-${field}-error`} className="mt-1 text-sm text-red-500">{fieldErrors[field]}</p>
+    );
+
+    return (
+        <Dialog isOpen={isOpen} onClose={onClose} labelledBy={titleId} className="max-w-lg">
+            <div className="p-4 border-b border-line flex justify-between items-center">
+                <h2 id={titleId} className="text-xl font-bold">{title}</h2>
+                <button onClick={onClose} className="text-content-secondary hover:text-primary text-2xl" aria-label="Close">&times;</button>
+            </div>
+            {status === 'sent' ? (
+                <div className="p-6 text-center space-y-4">
+                    <p role="status"><i className="fas fa-check-circle text-green-500 mr-2" aria-hidden="true"></i>Sent! {firstName} will reply to {fields.email}.</p>
+                    <button onClick={onClose} className="px-6 py-2 bg-primary hover:bg-primary-hover text-on-primary font-semibold rounded-lg">Done</button>
+                </div>
+            ) : (
+                <form onSubmit={handleSubmit} noValidate className="p-6 overflow-y-auto space-y-4">
+                    <div className="grid sm:grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor={`${fieldId}-name`} className="block text-sm font-medium mb-2">Name</label>
+                            <input type="text" id={`${fieldId}-name`} name="name" value={fields.name} onChange={handleChange} required autoComplete="name" aria-invalid={!!fieldErrors.name} aria-describedby={fieldErrors.name ? `${fieldId}-name-error` : undefined} className={inputClass('name')} />
+                            {fieldError('name')}
+                        </div>
+                        <div>
+                            <label htmlFor={`${fieldId}-email`} className="block text-sm font-medium mb-2">Email</label>
+                            <input type="email" id={`${fieldId}-email`} name="email" value={fields.email} onChange={handleChange} required autoComplete="email" aria-invalid={!!fieldErrors.email} aria-describedby={fieldErrors.email ? `${fieldId}-email-error` : undefined} className={inputClass('email')} />
+                            {fieldError('email')}
+                        </div>
+                    </div>
+                    <div>
+                        <label htmlFor={`${fieldId}-message`} className="block text-sm font-medium mb-2">{messageLabel}</label>
+                        <textarea id={`${fieldId}-message`} name="message" rows={7} value={fields.message} onChange={handleChange} disabled={status === 'loading'} placeholder={status === 'loading' ? loadingText : undefined} aria-busy={status === 'loading'} aria-invalid={!!fieldErrors.message} aria-describedby={fieldErrors.message ? `${fieldId}-message-error` : undefined} className={`${inputClass('message')} resize-none`}></textarea>
+                        {fieldError('message')}
+                        <p className="mt-1 text-xs text-content-secondary">{hint}</p>
+                    </div>
+                    {status === 'error' && (
+                        <p role="alert" className="p-3 rounded-lg text-sm bg-red-500/10 text-red-500">
+                            <i className="fas fa-exclamation-circle mr-2"></i>{submitError}
+                        </p>
+                    )}
+                    <button type="submit" disabled={status === 'loading' || status === 'sending'} className="w-full p-3 font-semibold rounded-lg bg-primary hover:bg-primary-hover text-on-primary flex items-center justify-center disabled:opacity-50">
+                        {status === 'sending' ? 'Sending...' : <><i className="fas fa-paper-plane mr-2" aria-hidden="true"></i>Send to {firstName}</>}
+                    </button>
+                </form>
+            )}
+        </Dialog>
+    );
+};
+
+// components/SendTranscriptDialog.tsx
+// Sends a summary of the conversation rather than the conversation itself.
+const SendTranscriptDialog: React.FC<{ isOpen: boolean; onClose: () => void; messages: Message[]; }> = ({ isOpen, onClose, messages }) => {
+    const loadSummary = () => {
+        const turns = toChatTurns(messages);
+        return requestTranscriptSummary(turns).catch(error => {
+            console.error('Failed to summarize the conversation:', error);
+            return summarizeTranscriptLocally(turns);
+        });
+    };
+
+    return (
+        <SendToOwnerDialog
+            isOpen={isOpen}
+            onClose={onClose}
+            title={`Send this conversation to ${portfolioProfile.name.split(' ')[0]}`}
+            subject="A conversation with your portfolio assistant"
+            messageLabel="Summary"
+            loadingText="Summarizing the conversation..."
+            hint="Edit anything you'd rather not share. Only this summary is sent, not the full conversation."
+            trackingDetail="transcript"
+            loadMessage={loadSummary}
+        />
+    );
+};
+
+// components/JobFitDialog.tsx
+// The job description is pasted or read from a text or PDF file; the report itself goes into the chat.
+const JobFitDialog: React.FC<{ isOpen: boolean; onClose: () => void; onReport: (report: JobFitReport, jobDescription: string, token?: string) => void; }> = ({ isOpen, onClose, onReport }) => {
+    const [jobDescription, setJobDescription] = useState('');
+    const [status, setStatus] = useState<'idle' | 'reading' | 'analyzing'>('idle');
+    const [error, setError] = useState('');
+    const titleId = useId();
+    const fieldId = useId();
+    const firstName = portfolioProfile.name.split(' ')[0];
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setStatus('reading');
+        setError('');
+        try {
+            setJobDescription(await readJobDescriptionFile(file));
+        } catch (readError) {
+            console.error('Failed to read the job description file:', readError);
+            setError(readError instanceof Error ? readError.message : "Couldn't read that file.");
+        } finally {
+            setStatus('idle');
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const text = jobDescription.trim();
+        if (!text) {
+            setError('Paste a job description or upload one first.');
+            return;
+        }
+        setStatus('analyzing');
+        setError('');
+        const { report, token } = await requestJobFitReport(text);
+        setStatus('idle');
+        setJobDescription('');
+        onReport(report, text, token);
+    };
+
+    return (
+        <Dialog isOpen={isOpen} onClose={onClose} labelledBy={titleId} className="max-w-lg">
+            <div className="p-4 border-b border-line flex justify-between items-center">
+                <h2 id={titleId} className="text-xl font-bold">How well does {firstName} fit your role?</h2>
+                <button onClick={onClose} className="text-content-secondary hover:text-primary text-2xl" aria-label="Close">&times;</button>
+            </div>
+            <form onSubmit={handleSubmit} noValidate className="p-6 overflow-y-auto space-y-4">
+                <div>
+                    <label htmlFor={`${fieldId}-description`} className="block text-sm font-medium mb-2">Job description</label>
+                    <textarea
+                        id={`${fieldId}-description`}
+                        rows={10}
+                        value={jobDescription}
+                        onChange={(e) => setJobDescription(e.target.value)}
+                        maxLength={MAX_JOB_DESCRIPTION_CHARS}
+                        disabled={status !== 'idle'}
+                        placeholder={status === 'reading' ? 'Reading the file...' : 'Paste the job description here'}
+                        aria-invalid={!!error}
+                        aria-describedby={error ? `${fieldId}-error` : undefined}
+                        className={`w-full p-3 bg-subtle/50 border ${error ? 'border-red-500' : 'border-line'} rounded-lg focus:ring-2 focus:ring-primary focus:outline-none resize-none`}
+                    ></textarea>
+                    {error && <p id={`${fieldId}-error`} className="mt-1 text-sm text-red-500">{error}</p>}
+                </div>
+                <div className="flex items-center justify-between gap-4 flex-wrap">
+                    <label className={`inline-flex items-center gap-2 text-sm font-medium text-primary cursor-pointer hover:underline focus-within:ring-2 focus-within:ring-primary rounded ${status !== 'idle' ? 'opacity-50 pointer-events-none' : ''}`}>
+                        <i className="fas fa-file-upload" aria-hidden="true"></i>Upload a text or PDF file
+                        <input type="file" accept=".txt,.md,.pdf,text/plain,text/markdown,application/pdf" onChange={handleFileChange} disabled={status !== 'idle'} className="sr-only" />
+                    </label>
+                    <p className="text-xs text-content-secondary">Text and PDF files up to 5 MB.</p>
+                </div>
+                <button type="submit" disabled={status !== 'idle'} className="w-full p-3 font-semibold rounded-lg bg-primary hover:bg-primary-hover text-on-primary flex items-center justify-center disabled:opacity-50">
+                    {status === 'analyzing' ? 'Analyzing...' : <><i className="fas fa-search mr-2" aria-hidden="true"></i>Analyze fit</>}
+                </button>
+            </form>
+        </Dialog>
+    );
+};
+
 // components/Chatbot.tsx
-const Chatbot: React.FC = () => {
+const createGreeting = (): Message => ({
+    id: '1',
+    text: `Hi! I'm ${portfolioProfile.name.split(' ')[0]}'s AI assistant. Ask me anything about his skills or projects!`,
+    sender: 'bot',
+    timestamp: Date.now(),
+});
+
+const describeAction = ({ name, args }: ToolCall): { icon: string; label: string } => {
+    switch (name) {
+        case 'scrollToSection':
+            return { icon: 'fa-arrow-down', label: `Showed ${navLinks.find(link => link.id === args.section)?.title ?? 'section'}` };
+        case 'openResume':
+            return { icon: 'fa-file-alt', label: 'Opened resume' };
+        case 'highlightProject':
+            return { icon: 'fa-star', label: `Highlighted ${String(args.title)}` };
+        case 'prefillContactForm':
+            return { icon: 'fa-pen', label: 'Prefilled contact form' };
+        default:
+            return { icon: 'fa-bolt', label: name };
+    }
+};
+
+// Suggest a fresh start once older messages are summarized, or shortly before they will be.
+const isConversationLong = ({ usedTokens, maxTokens, summarized }: ContextBudgetState) => summarized || usedTokens >= maxTokens * 0.8;
+
+const formatMessageTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const messageActionClass = 'w-7 h-7 rounded-md text-xs hover:text-primary hover:bg-subtle focus:outline-none focus-visible:ring-2 focus-visible:ring-primary';
+
+// Copy for every message; the other actions only appear where the Chatbot passes a handler for them.
+const MessageActions: React.FC<{
+    message: Message;
+    onEdit?: () => void;
+    onRegenerate?: () => void;
+    onRate?: (rating: ChatFeedbackRating, comment?: string) => void;
+}> = ({ message, onEdit, onRegenerate, onRate }) => {
+    const [copied, copy] = useCopyToClipboard();
+    const [isCommenting, setIsCommenting] = useState(false);
+    const [comment, setComment] = useState('');
+    const rating = message.feedback?.rating;
+
+    // The rating is sent straight away; the comment follows as an update if the visitor writes one.
+    const rate = (next: ChatFeedbackRating) => {
+        if (next !== rating) onRate?.(next);
+        setComment(message.feedback?.comment ?? '');
+        setIsCommenting(true);
+    };
+
+    const handleCommentSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (rating && comment.trim()) onRate?.(rating, comment.trim());
+        setIsCommenting(false);
+    };
+
+    return (
+        <div className={`flex flex-col ${message.sender === 'user' ? 'items-end' : 'items-start'}`}>
+            <div className="flex items-center gap-0.5 text-content-secondary">
+                <button onClick={() => copy(message.text)} className={messageActionClass} aria-label="Copy message" title={copied ? 'Copied' : 'Copy'}>
+                    <i className={`fas ${copied ? 'fa-check' : 'fa-copy'}`} aria-hidden="true"></i>
+                </button>
+                {onEdit && (
+                    <button onClick={onEdit} className={messageActionClass} aria-label="Edit and resend" title="Edit and resend">
+                        <i className="fas fa-pen" aria-hidden="true"></i>
+                    </button>
+                )}
+                {onRegenerate && (
+                    <button onClick={onRegenerate} className={messageActionClass} aria-label="Regenerate reply" title="Regenerate">
+                        <i className="fas fa-sync-alt" aria-hidden="true"></i>
+                    </button>
+                )}
+                {onRate && (
+                    <>
+                        <button onClick={() => rate('up')} className={`${messageActionClass} ${rating === 'up' ? 'text-primary' : ''}`} aria-label="Good reply" aria-pressed={rating === 'up'} title="Good reply">
+                            <i className="fas fa-thumbs-up" aria-hidden="true"></i>
+                        </button>
+                        <button onClick={() => rate('down')} className={`${messageActionClass} ${rating === 'down' ? 'text-red-500' : ''}`} aria-label="Bad reply" aria-pressed={rating === 'down'} title="Bad reply">
+                            <i className="fas fa-thumbs-down" aria-hidden="true"></i>
+                        </button>
+                    </>
+                )}
+            </div>
+            {isCommenting && rating && (
+                <form onSubmit={handleCommentSubmit} className="mt-1 flex items-center gap-1 w-full">
+                    <input
+                        type="text"
+                        value={comment}
+                        onChange={(e) => setComment(e.target.value)}
+                        maxLength={FEEDBACK_LIMITS.comment}
+                        aria-label="Feedback comment"
+                        placeholder={rating === 'down' ? 'What was wrong? (optional)' : 'Anything to add? (optional)'}
+                        className="flex-1 min-w-0 px-2 py-1 text-xs bg-subtle/50 border border-line rounded-md focus:ring-2 focus:ring-primary focus:outline-none"
+                        autoFocus
+                    />
+                    <button type="submit" className="text-xs font-semibold px-2 py-1 rounded-md bg-primary text-on-primary hover:bg-primary-hover">Send</button>
+                    <button type="button" onClick={() => setIsCommenting(false)} className="text-xs px-2 py-1 rounded-md text-content-secondary hover:bg-subtle">Skip</button>
+                </form>
+            )}
+        </div>
+    );
+};
+
+// Inline editor for a sent question. Enter sends, Shift+Enter adds a line, Escape cancels without closing the chat.
+const MessageEditor: React.FC<{ initialText: string; onSubmit: (text: string) => void; onCancel: () => void }> = ({ initialText, onSubmit, onCancel }) => {
+    const [draft, setDraft] = useState(initialText);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (draft.trim()) onSubmit(draft);
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (event.key === 'Escape') {
+            event.stopPropagation();
+            onCancel();
+        } else if (event.key === 'Enter' && !event.shiftKey && !event.nativeEvent.isComposing) {
+            // While an input method is composing, Enter confirms the candidate instead of sending.
+            handleSubmit(event);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="w-64 max-w-full">
+            <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={handleKeyDown}
+                rows={3}
+                maxLength={MAX_CHAT_MESSAGE_CHARS}
+                aria-label="Edit message"
+                className="w-full p-2 text-sm text-content bg-surface rounded-lg border border-line focus:ring-2 focus:ring-primary focus:outline-none resize-none"
+                autoFocus
+            />
+            <div className="flex justify-end gap-2 mt-1">
+                <button type="button" onClick={onCancel} className="text-xs px-3 py-1 rounded-full border border-on-primary/50 hover:bg-on-primary/10">Cancel</button>
+                <button type="submit" disabled={!draft.trim()} className="text-xs font-semibold px-3 py-1 rounded-full bg-surface text-primary disabled:opacity-50">Send</button>
+            </div>
+        </form>
+    );
+};
+
+// Starter questions for whichever section the visitor is looking at; replaced by the model's follow-ups once it answers.
+// The home section, and any section without its own, starts with the audience's questions.
+const buildSectionQuestions = (profile: PortfolioProfile): Record<string, string[]> => {
+    const firstName = profile.name.split(' ')[0];
+    return {
+        about: ['Where has he worked?', 'What did he study?', 'What is he working on now?'],
+        skills: [`Which ${profile.skills[0]?.skills[0] ?? 'frontend'} projects has he built?`, 'What is his strongest skill?', 'Is he familiar with AI tools?'],
+        projects: profile.projects.slice(0, 2).map(project => `Tell me about ${project.title}`).concat('Which project is he proudest of?'),
+        resume: ['Summarize his experience', 'Open the resume', 'What are his qualifications?'],
+        contact: [`How can I reach ${firstName}?`, 'Is he open to new roles?', 'Help me write a message'],
+    };
+};
+
+const SECTION_QUESTIONS = buildSectionQuestions(portfolioProfile);
+
+const buildAudienceQuestions = (profile: PortfolioProfile): Record<AudienceMode, string[]> => {
+    const firstName = profile.name.split(' ')[0];
+    return {
+        casual: [`Who is ${firstName}?`, 'What are his main skills?', 'Show me his projects'],
+        recruiter: ['Summarize his experience', 'What results has he delivered?', 'Is he open to new roles?'],
+        developer: ['What stack does he use most?', `How is ${profile.projects[0]?.title ?? 'his latest project'} built?`, 'Which project is the most technically interesting?'],
+    };
+};
+
+const AUDIENCE_QUESTIONS = buildAudienceQuestions(portfolioProfile);
+
+// Ctrl+K (Cmd+K on macOS) opens and closes the chat from anywhere on the page.
+const isChatShortcut = (event: KeyboardEvent) => (event.ctrlKey || event.metaKey) && !event.altKey && event.key.toLowerCase() === 'k';
+
+const Chatbot: React.FC<{ provider?: ChatProvider; onToolCall?: (call: ToolCall) => void; activeSection?: string; }> = ({ provider, onToolCall, activeSection = 'home' }) => {
     const [isOpen, setIsOpen] = useState(false);
-    const [messages, setMessages] = useState<Message[]>([
-        { id: '1', text: "Hi! I'm Rahul's AI assistant. Ask me anything about his skills or projects!", sender: 'bot' }
-    ]);
+    const [messages, setMessages] = useState<Message[]>(() => loadConversation() ?? [createGreeting()]);
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
+    // Read out by screen readers once a reply is complete; the log itself is not live so streaming chunks stay quiet.
+    const [announcement, setAnnouncement] = useState('');
+    const [isSendDialogOpen, setIsSendDialogOpen] = useState(false);
+    const [isJobFitDialogOpen, setIsJobFitDialogOpen] = useState(false);
+    const [introReport, setIntroReport] = useState<JobFitReport | null>(null);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [budget, setBudget] = useState<ContextBudgetState | null>(null);
+    const [audience, setAudience] = useState<AudienceMode>(loadAudienceMode);
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const panelRef = useRef<HTMLDivElement>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const toggleButtonRef = useRef<HTMLButtonElement>(null);
+    const panelId = useId();
+    const titleId = useId();
 
     const scrollToBottom = () => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -683,81 +2407,402 @@ const Chatbot: React.FC = () => {
 
     useEffect(scrollToBottom, [messages]);
 
-    const handleSendMessage = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!input.trim() || isLoading) return;
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
 
-        const userMessage: Message = { id: Date.now().toString(), text: input, sender: 'user' };
-        setMessages(prev => [...prev, userMessage]);
-        setInput('');
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!isChatShortcut(event)) return;
+            event.preventDefault();
+            setIsOpen(open => !open);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    // Focus follows the panel: into the message box when it opens, back to the toggle if it closes while focused.
+    useEffect(() => {
+        if (isOpen) {
+            inputRef.current?.focus();
+        } else if (panelRef.current?.contains(document.activeElement)) {
+            toggleButtonRef.current?.focus();
+        }
+    }, [isOpen]);
+
+    // Re-seed the model session with the restored conversation so follow-up questions keep their context.
+    useEffect(() => {
+        const turns = toChatTurns(messages);
+        if (turns.length) {
+            (provider ?? getChatProvider()).reset(turns);
+        }
+    }, []);
+
+    useEffect(() => {
+        saveConversation(messages);
+    }, [messages]);
+
+    const startNewChat = () => {
+        abortControllerRef.current?.abort();
+        setEditingId(null);
+        setBudget(null);
+        (provider ?? getChatProvider()).reset();
+        setMessages([createGreeting()]);
+    };
+
+    const handleClearHistory = () => {
+        if (!window.confirm('Delete the saved conversation from this browser?')) return;
+        abortControllerRef.current?.abort();
+        setEditingId(null);
+        setBudget(null);
+        // Empties the server's copy of the conversation too, before the session id is forgotten.
+        (provider ?? getChatProvider()).reset();
+        clearChatHistory();
+        setMessages([createGreeting()]);
+    };
+
+    const updateMessage = (id: string, patch: Partial<Message>) => {
+        setMessages(prev => prev.map(msg => (msg.id === id ? { ...msg, ...patch } : msg)));
+    };
+
+    // Streams the answer to `question` into the bot message. `history` is the conversation before this
+    // exchange; after a failure the session is re-seeded with it, so nothing said earlier is lost.
+    const requestReply = async (question: string, botMessageId: string, history: ChatTurn[]) => {
         setIsLoading(true);
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        let partialText = '';
 
         try {
-            const responseText = await getChatResponse(input);
-            const botMessage: Message = { id: (Date.now() + 1).toString(), text: responseText, sender: 'bot' };
-            setMessages(prev => [...prev, botMessage]);
+            const responseText = await streamChatResponse(question, {
+                signal: controller.signal,
+                audience,
+                onChunk: (textSoFar) => {
+                    partialText = textSoFar;
+                    updateMessage(botMessageId, { text: textSoFar });
+                },
+                onToolCall: (call) => {
+                    onToolCall?.(call);
+                    setMessages(prev => prev.map(msg => (msg.id === botMessageId ? { ...msg, actions: [...(msg.actions ?? []), call] } : msg)));
+                },
+                onSources: (sources) => updateMessage(botMessageId, { sources }),
+                onFollowUps: (suggestions) => updateMessage(botMessageId, { suggestions }),
+                onBudget: setBudget,
+                onReplyToken: (replyToken) => updateMessage(botMessageId, { replyToken }),
+            }, provider);
+            if (controller.signal.aborted) {
+                updateMessage(botMessageId, { text: responseText || 'Stopped before I could answer.', status: 'stopped' });
+                setAnnouncement('Response stopped.');
+            } else {
+                updateMessage(botMessageId, { text: responseText, status: undefined });
+                setAnnouncement(`Assistant: ${responseText}`);
+            }
         } catch (error) {
-            const errorMessage: Message = { id: (Date.now() + 1).toString(), text: "Oops! Something went wrong. Please try again.", sender: 'bot' };
-            setMessages(prev => [...prev, errorMessage]);
+            // Stopping during a retry's backoff surfaces as the last error; it is still a stop.
+            if (controller.signal.aborted) {
+                updateMessage(botMessageId, { text: partialText || 'Stopped before I could answer.', status: 'stopped' });
+                setAnnouncement('Response stopped.');
+                return;
+            }
+            const { kind } = toChatError(error);
+            (provider ?? getChatProvider()).reset(history);
+            updateMessage(botMessageId, { text: partialText, status: 'error', errorKind: kind });
+            setAnnouncement(CHAT_ERROR_MESSAGES[kind]);
+            trackEvent({ type: 'chat_error', detail: partialText ? 'interrupted' : kind });
         } finally {
+            abortControllerRef.current = null;
             setIsLoading(false);
         }
     };
 
+    // Asks `text` after the `previous` messages, which replace whatever the conversation held after them.
+    const startExchange = (text: string, previous: Message[]) => {
+        const userMessage: Message = { id: Date.now().toString(), text, sender: 'user', timestamp: Date.now() };
+        const botMessageId = (Date.now() + 1).toString();
+        setMessages([...previous, userMessage, { id: botMessageId, text: '', sender: 'bot', status: 'streaming', timestamp: Date.now() }]);
+        trackEvent({ type: 'chat_question', detail: userMessage.text });
+        requestReply(text, botMessageId, toChatTurns(previous));
+    };
+
+    const sendMessage = (text: string) => {
+        if (!text.trim() || isLoading) return;
+        setInput('');
+        startExchange(text, messages);
+    };
+
+    // Editing a question branches the conversation from it: the later exchanges are dropped and the
+    // session is re-seeded with what came before, so the model never sees the discarded branch.
+    const resendEditedMessage = (id: string, text: string) => {
+        const index = messages.findIndex(msg => msg.id === id);
+        if (index < 0 || !text.trim() || isLoading) return;
+        setEditingId(null);
+        const previous = messages.slice(0, index);
+        (provider ?? getChatProvider()).reset(toChatTurns(previous));
+        startExchange(text, previous);
+    };
+
+    // Regenerates a completed reply or retries a failed one. Only the latest reply qualifies, so the
+    // new exchange stays in order in the history.
+    const regenerateLastReply = () => {
+        const reply = messages[messages.length - 1];
+        const question = messages[messages.length - 2];
+        if (isLoading || reply?.sender !== 'bot' || question?.sender !== 'user') return;
+        const history = toChatTurns(messages.slice(0, -2));
+        (provider ?? getChatProvider()).reset(history);
+        updateMessage(reply.id, { text: '', status: 'streaming', errorKind: undefined, actions: undefined, sources: undefined, suggestions: undefined, feedback: undefined, replyToken: undefined, timestamp: Date.now() });
+        requestReply(question.text, reply.id, history);
+    };
+
+    // The report joins the conversation as an ordinary exchange, so follow-up questions about it have its
+    // context. Only the start of the description is kept, to stay within the history limits.
+    const addJobFitReport = (report: JobFitReport, jobDescription: string, token?: string) => {
+        setIsJobFitDialogOpen(false);
+        if (isLoading) return;
+        const excerpt = jobDescription.length > 500 ? `${jobDescription.slice(0, 500).trimEnd()}…` : jobDescription;
+        const next: Message[] = [
+            ...messages,
+            { id: Date.now().toString(), text: `Here's a job description${report.role ? ` for ${report.role}` : ''}. How well does ${portfolioProfile.name.split(' ')[0]} fit?\n\n${excerpt}`, sender: 'user', timestamp: Date.now() },
+            { id: (Date.now() + 1).toString(), text: formatJobFitReport(report), sender: 'bot', timestamp: Date.now(), jobFit: report, replyToken: token },
+        ];
+        setMessages(next);
+        (provider ?? getChatProvider()).reset(toChatTurns(next));
+        setAnnouncement(`Assistant: ${formatJobFitReport(report)}`);
+    };
+
+    const rateReply = (id: string, rating: ChatFeedbackRating, comment?: string) => {
+        const index = messages.findIndex(msg => msg.id === id);
+        const question = messages[index - 1];
+        if (index < 0) return;
+        updateMessage(id, { feedback: { rating, ...(comment ? { comment } : {}) } });
+        setAnnouncement('Thanks for the feedback.');
+        sendChatFeedback({ messageId: id, rating, comment, question: question?.sender === 'user' ? question.text : '', reply: messages[index].text })
+            .catch(error => console.error('Failed to send feedback:', error));
+    };
+
+    const handleSendMessage = (e: React.FormEvent) => {
+        e.preventDefault();
+        sendMessage(input);
+    };
+
+    const lastMessage = messages[messages.length - 1];
+    const suggestions = lastMessage?.sender === 'bot' && lastMessage.suggestions?.length
+        ? lastMessage.suggestions
+        : SECTION_QUESTIONS[activeSection] ?? AUDIENCE_QUESTIONS[audience];
+
+    const handleAudienceChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const mode = parseAudienceMode(e.target.value) ?? DEFAULT_AUDIENCE_MODE;
+        setAudience(mode);
+        saveAudienceMode(mode);
+        setAnnouncement(`Answers are now tailored for ${AUDIENCE_LAYERS[mode].label.toLowerCase()}.`);
+    };
+
+    const handleStop = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    const handlePanelKeyDown = (event: React.KeyboardEvent) => {
+        if (event.key !== 'Escape') return;
+        event.stopPropagation();
+        setIsOpen(false);
+    };
+
     return (
         <>
             <button
+                ref={toggleButtonRef}
                 onClick={() => setIsOpen(!isOpen)}
-                className="fixed bottom-6 right-6 w-16 h-16 bg-light-primary dark:bg-dark-primary text-white rounded-full shadow-2xl flex items-center justify-center text-3xl z-50 transform hover:scale-110 transition-transform duration-300"
-                aria-label="Toggle Chatbot"
+                className="fixed bottom-6 right-6 w-16 h-16 bg-primary text-on-primary rounded-full shadow-2xl flex items-center justify-center text-3xl z-50 transform hover:scale-110 transition-transform duration-300"
+                aria-label={isOpen ? 'Close chat' : 'Open chat'}
+                aria-expanded={isOpen}
+                aria-controls={panelId}
+                aria-keyshortcuts="Control+K Meta+K"
+                title={`${isOpen ? 'Close' : 'Open'} chat (Ctrl+K)`}
             >
 {/* FIX: Replaced single quotes with backticks for template literal class name. */}
-                <i className={`fas ${isOpen ? 'fa-times' : 'fa-robot'}`}></i>
+                <i className={`fas ${isOpen ? 'fa-times' : 'fa-robot'}`} aria-hidden="true"></i>
             </button>
 {/* FIX: Replaced single quotes with backticks for template literal class name. */}
-            <div className={`fixed bottom-24 right-6 w-[calc(100vw-3rem)] max-w-sm h-[70vh] max-h-[600px] bg-light-surface dark:bg-dark-surface shadow-2xl rounded-lg border border-light-border dark:border-dark-border flex flex-col transition-all duration-300 ease-in-out z-50 ${isOpen ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-10 pointer-events-none'}`}>
-                <div className="p-4 border-b border-light-border dark:border-dark-border">
-                    <h3 className="font-bold text-lg text-light-text dark:text-dark-text">AI Assistant</h3>
-                    <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">Ask me about Rahul</p>
+            <div
+                id={panelId}
+                ref={panelRef}
+                role="region"
+                aria-labelledby={titleId}
+                inert={!isOpen}
+                onKeyDown={handlePanelKeyDown}
+                className={`fixed bottom-24 right-6 w-[calc(100vw-3rem)] max-w-sm h-[70vh] max-h-[600px] bg-surface shadow-2xl rounded-lg border border-line flex flex-col transition-all duration-300 ease-in-out z-50 ${isOpen ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-10 pointer-events-none'}`}
+            >
+                <div className="p-4 border-b border-line flex items-start justify-between gap-2">
+                    <div>
+                        <h3 id={titleId} className="font-bold text-lg text-content">AI Assistant</h3>
+                        <label className="flex items-center gap-1 text-sm text-content-secondary" title={AUDIENCE_LAYERS[audience].description}>
+                            Answers for
+                            <select value={audience} onChange={handleAudienceChange} className="bg-transparent font-medium text-primary rounded cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-primary">
+                                {AUDIENCE_MODES.map(mode => (
+                                    <option key={mode} value={mode}>{AUDIENCE_LAYERS[mode].label}</option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+                    <div className="flex items-center gap-1">
+                        <button onClick={() => setIsJobFitDialogOpen(true)} disabled={isLoading} className="w-8 h-8 rounded-lg text-content-secondary hover:text-primary hover:bg-subtle disabled:opacity-50" aria-label="Check fit with a job description" title="Check fit with a job description">
+                            <i className="fas fa-briefcase" aria-hidden="true"></i>
+                        </button>
+                        <ChatTranscriptMenu messages={messages} onSend={() => setIsSendDialogOpen(true)} />
+                        <button onClick={startNewChat} className="w-8 h-8 rounded-lg text-content-secondary hover:text-primary hover:bg-subtle" aria-label="New chat" title="New chat">
+                            <i className="fas fa-plus" aria-hidden="true"></i>
+                        </button>
+                        <button onClick={handleClearHistory} className="w-8 h-8 rounded-lg text-content-secondary hover:text-red-500 hover:bg-subtle" aria-label="Clear chat history" title="Clear chat history">
+                            <i className="fas fa-trash-alt" aria-hidden="true"></i>
+                        </button>
+                    </div>
                 </div>
-                <div className="flex-1 p-4 overflow-y-auto space-y-4">
-                    {messages.map((msg) => (
+                <div role="log" aria-live="off" aria-label="Conversation" tabIndex={0} className="flex-1 p-4 overflow-y-auto space-y-4 focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-primary">
+                    {messages.map((msg, index) => {
+                        const isSettled = !msg.status || msg.status === 'stopped';
+                        const answers = msg.sender === 'bot' && messages[index - 1]?.sender === 'user';
+                        return (
 // FIX: Replaced single quotes with backticks for template literal class name.
-                        <div key={msg.id} className={`flex items-end gap-2 ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
-                            {msg.sender === 'bot' && <div className="w-8 h-8 rounded-full bg-light-primary dark:bg-dark-primary flex items-center justify-center text-white flex-shrink-0"><i className="fas fa-robot"></i></div>}
+                            <div key={msg.id} className={`flex items-start gap-2 ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
+                                {msg.sender === 'bot' && <div className="w-8 h-8 rounded-full bg-primary flex items-center justify-center text-on-primary flex-shrink-0" aria-hidden="true"><i className="fas fa-robot"></i></div>}
+                                <div className={`max-w-[80%] flex flex-col gap-1 ${msg.sender === 'user' ? 'items-end' : 'items-start'}`}>
 {/* FIX: Replaced single quotes with backticks for template literal class name. */}
-                            <div className={`max-w-[80%] p-3 rounded-2xl ${msg.sender === 'user' ? 'bg-light-primary dark:bg-dark-primary text-white rounded-br-lg' : 'bg-light-secondary-bg dark:bg-dark-secondary-bg text-light-text dark:text-dark-text rounded-bl-lg'}`}>
-                                <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.text}</p>
-                            </div>
-                        </div>
-                    ))}
-                    {isLoading && (
-                        <div className="flex items-end gap-2 justify-start">
-                             <div className="w-8 h-8 rounded-full bg-light-primary dark:bg-dark-primary flex items-center justify-center text-white flex-shrink-0"><i className="fas fa-robot"></i></div>
-                            <div className="p-3 rounded-2xl bg-light-secondary-bg dark:bg-dark-secondary-bg rounded-bl-lg">
-                                <div className="flex items-center space-x-1">
-                                    <span className="w-2 h-2 bg-light-text-secondary dark:bg-dark-text-secondary rounded-full animate-bounce delay-75"></span>
-                                    <span className="w-2 h-2 bg-light-text-secondary dark:bg-dark-text-secondary rounded-full animate-bounce delay-150"></span>
-                                    <span className="w-2 h-2 bg-light-text-secondary dark:bg-dark-text-secondary rounded-full animate-bounce delay-200"></span>
+                                    <div className={`max-w-full p-3 rounded-2xl ${msg.sender === 'user' ? 'bg-primary text-on-primary rounded-br-lg' : msg.status === 'error' ? 'bg-red-500/10 border border-red-500/40 text-content rounded-bl-lg' : 'bg-subtle text-content rounded-bl-lg'}`}>
+                                        <span className="sr-only">{msg.sender === 'user' ? 'You said:' : 'Assistant said:'}</span>
+                                        {msg.status === 'streaming' && !msg.text ? (
+                                            <div className="flex items-center space-x-1 py-1" role="status" aria-label="Assistant is typing">
+                                                <span className="w-2 h-2 bg-content-secondary rounded-full animate-bounce delay-75"></span>
+                                                <span className="w-2 h-2 bg-content-secondary rounded-full animate-bounce delay-150"></span>
+                                                <span className="w-2 h-2 bg-content-secondary rounded-full animate-bounce delay-200"></span>
+                                            </div>
+                                        ) : msg.sender === 'bot' ? (
+                                            <>
+                                                {msg.text && <MarkdownMessage text={msg.text} />}
+                                                {msg.status === 'streaming' && <span className="animate-blink text-primary">|</span>}
+                                            </>
+                                        ) : msg.id === editingId ? (
+                                            <MessageEditor initialText={msg.text} onSubmit={(text) => resendEditedMessage(msg.id, text)} onCancel={() => setEditingId(null)} />
+                                        ) : (
+                                            <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.text}</p>
+                                        )}
+                                        {msg.actions?.length ? (
+                                            <div className="flex flex-wrap gap-1 mt-2">
+                                                {msg.actions.map((action, index) => {
+                                                    const { icon, label } = describeAction(action);
+                                                    return (
+                                                        <span key={index} className="inline-flex items-center gap-1 text-xs font-medium px-2 py-1 rounded-full bg-surface border border-line text-primary">
+                                                            <i className={`fas ${icon}`}></i>{label}
+                                                        </span>
+                                                    );
+                                                })}
+                                            </div>
+                                        ) : null}
+                                        {getCitedSources(msg).length > 0 && (
+                                            <div className="mt-2 pt-2 border-t border-line">
+                                                <p className="text-xs font-semibold text-content-secondary mb-1">Sources</p>
+                                                <ol className="space-y-0.5">
+                                                    {getCitedSources(msg).map(source => (
+                                                        <li key={source.id} title={source.excerpt} className="text-xs text-content-secondary">
+                                                            <span className="font-mono text-primary">[{source.id}]</span> {source.title} <span className="opacity-70">({source.document})</span>
+                                                        </li>
+                                                    ))}
+                                                </ol>
+                                            </div>
+                                        )}
+                                        {msg.jobFit && (
+                                            <button onClick={() => setIntroReport(msg.jobFit ?? null)} className="mt-2 inline-flex items-center gap-1 text-xs font-semibold px-3 py-1 rounded-full bg-primary text-on-primary hover:bg-primary-hover focus:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2">
+                                                <i className="fas fa-paper-plane" aria-hidden="true"></i>Send an intro to {portfolioProfile.name.split(' ')[0]}
+                                            </button>
+                                        )}
+                                        {msg.status === 'stopped' && <p className="mt-1 text-xs italic text-content-secondary">Response stopped</p>}
+                                        {msg.status === 'error' && (
+                                            <div className={`flex items-start gap-2 text-sm ${msg.text ? 'mt-2 pt-2 border-t border-red-500/30' : ''}`}>
+                                                <i className="fas fa-exclamation-circle text-red-500 mt-0.5" aria-hidden="true"></i>
+                                                <div>
+                                                    <p>{msg.text ? 'This reply was interrupted. ' : ''}{CHAT_ERROR_MESSAGES[msg.errorKind ?? 'network']}</p>
+                                                    {msg.id === lastMessage?.id && msg.errorKind !== 'safety' && !isLoading && (
+                                                        <button onClick={regenerateLastReply} className="mt-2 inline-flex items-center gap-1 text-xs font-semibold px-3 py-1 rounded-full bg-primary text-on-primary hover:bg-primary-hover focus:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2">
+                                                            <i className="fas fa-redo" aria-hidden="true"></i>Retry
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        )}
+                                        <time dateTime={new Date(msg.timestamp).toISOString()} className={`block mt-1 text-[10px] ${msg.sender === 'user' ? 'text-on-primary/70 text-right' : 'text-content-secondary'}`}>
+                                            {formatMessageTime(msg.timestamp)}
+                                        </time>
+                                    </div>
+                                    {isSettled && msg.text && msg.id !== editingId && (
+                                        <MessageActions
+                                            message={msg}
+                                            onEdit={msg.sender === 'user' && !isLoading ? () => setEditingId(msg.id) : undefined}
+                                            onRegenerate={answers && !msg.jobFit && msg.id === lastMessage?.id && !isLoading ? regenerateLastReply : undefined}
+                                            onRate={answers && msg.status !== 'stopped' ? (rating, comment) => rateReply(msg.id, rating, comment) : undefined}
+                                        />
+                                    )}
                                 </div>
                             </div>
-                        </div>
-                    )}
+                        );
+                    })}
                     <div ref={messagesEndRef} />
                 </div>
-                <form onSubmit={handleSendMessage} className="p-4 border-t border-light-border dark:border-dark-border flex items-center gap-2">
+                <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">{announcement}</div>
+                {!isLoading && budget && isConversationLong(budget) && (
+                    <div role="note" className="mx-4 mt-3 flex items-center justify-between gap-2 px-3 py-2 rounded-lg bg-subtle text-xs text-content-secondary" title={`About ${budget.usedTokens} of ${budget.maxTokens} tokens of conversation in use`}>
+                        <span>
+                            <i className="fas fa-history mr-1" aria-hidden="true"></i>
+                            {budget.summarized ? 'This conversation is getting long, so older messages are now summarized.' : 'This conversation is getting long.'} Start fresh?
+                        </span>
+                        <button onClick={startNewChat} className="flex-shrink-0 font-semibold text-primary hover:underline focus:outline-none focus-visible:ring-2 focus-visible:ring-primary rounded">New chat</button>
+                    </div>
+                )}
+                {!isLoading && suggestions.length > 0 && (
+                    <ul aria-label="Suggested questions" className="px-4 pt-3 border-t border-line flex gap-2 overflow-x-auto">
+                        {suggestions.map(question => (
+                            <li key={question} className="flex-shrink-0">
+                                <button
+                                    type="button"
+                                    onClick={() => sendMessage(question)}
+                                    className="text-xs font-medium px-3 py-1.5 rounded-full border border-line bg-subtle/50 text-primary hover:bg-subtle focus:outline-none focus-visible:ring-2 focus-visible:ring-primary whitespace-nowrap"
+                                >
+                                    {question}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <form onSubmit={handleSendMessage} className={`p-4 flex items-center gap-2 ${!isLoading && suggestions.length > 0 ? '' : 'border-t border-line'}`}>
                     <input
+                        ref={inputRef}
                         type="text"
                         value={input}
                         onChange={(e) => setInput(e.target.value)}
+                        maxLength={MAX_CHAT_MESSAGE_CHARS}
+                        aria-label="Message"
                         placeholder="Type your message..."
-                        className="flex-1 p-3 bg-light-secondary-bg/50 dark:bg-dark-secondary-bg/50 border border-light-border dark:border-dark-border rounded-lg focus:ring-2 focus:ring-light-primary dark:focus:ring-dark-primary focus:outline-none"
+                        className="flex-1 p-3 bg-subtle/50 border border-line rounded-lg focus:ring-2 focus:ring-primary focus:outline-none"
                     />
-                    <button type="submit" disabled={isLoading} className="w-12 h-12 bg-light-primary dark:bg-dark-primary text-white rounded-lg flex items-center justify-center flex-shrink-0 disabled:opacity-50">
-                        <i className="fas fa-paper-plane"></i>
-                    </button>
+                    {isLoading ? (
+                        <button type="button" onClick={handleStop} className="w-12 h-12 bg-red-500 hover:bg-red-600 text-white rounded-lg flex items-center justify-center flex-shrink-0" aria-label="Stop response">
+                            <i className="fas fa-stop" aria-hidden="true"></i>
+                        </button>
+                    ) : (
+                        <button type="submit" className="w-12 h-12 bg-primary text-on-primary rounded-lg flex items-center justify-center flex-shrink-0 disabled:opacity-50" aria-label="Send message">
+                            <i className="fas fa-paper-plane" aria-hidden="true"></i>
+                        </button>
+                    )}
                 </form>
             </div>
+            <SendTranscriptDialog isOpen={isSendDialogOpen} onClose={() => setIsSendDialogOpen(false)} messages={messages} />
+            <JobFitDialog isOpen={isJobFitDialogOpen} onClose={() => setIsJobFitDialogOpen(false)} onReport={addJobFitReport} />
+            <SendToOwnerDialog
+                isOpen={introReport !== null}
+                onClose={() => setIntroReport(null)}
+                title={`Introduce yourself to ${portfolioProfile.name.split(' ')[0]}`}
+                subject={introReport?.role ? `Job opportunity: ${introReport.role}` : 'A job opportunity'}
+                messageLabel="Message"
+                loadingText="Drafting your message..."
+                hint="Drafted from the fit report. Edit it as you like before sending."
+                trackingDetail="job-fit"
+                loadMessage={async () => introReport?.introMessage ?? ''}
+            />
         </>
     );
 };
@@ -765,7 +2810,7 @@ const Chatbot: React.FC = () => {
 
 // App.tsx
 const App: React.FC = () => {
-    const { theme, toggleTheme } = useTheme();
+    const theme = useTheme();
     const sectionRefs = {
         home: useRef<HTMLElement>(null),
         about: useRef<HTMLElement>(null),
@@ -776,11 +2821,19 @@ const App: React.FC = () => {
     };
 
     const sectionIds = Object.keys(sectionRefs);
-    const activeSection = useScrollSpy(sectionIds.map(id => sectionRefs[id as keyof typeof sectionRefs]), { offset: 100 });
+    const activeSection = useScrollSpy(sectionIds.map(id => sectionRefs[id as keyof typeof sectionRefs]));
+
+    const { route, scroll, fromHistory, navigate, close } = useHashRoute();
+    const [highlightedProject, setHighlightedProject] = useState<string | null>(null);
+    const [contactDraft, setContactDraft] = useState<ContactDraft | null>(null);
+
+    // Set while a programmatic smooth scroll is under way, so the sections it passes do not rewrite the URL.
+    const scrollTargetRef = useRef<{ section: string; until: number } | null>(null);
 
     const scrollToSection = (sectionId: string) => {
         const ref = sectionRefs[sectionId as keyof typeof sectionRefs];
         if (ref.current) {
+            scrollTargetRef.current = { section: sectionId, until: Date.now() + 1000 };
             const navHeight = 80;
             const elementPosition = ref.current.getBoundingClientRect().top;
             const offsetPosition = elementPosition + window.pageYOffset - navHeight;
@@ -792,21 +2845,89 @@ const App: React.FC = () => {
         }
     };
 
+    // Going Back to the section already on screen (e.g. by closing a modal) leaves the scroll position alone.
+    useEffect(() => {
+        if (!scroll || (fromHistory && route.name === 'section' && route.section === activeSection)) return;
+        scrollToSection(routeSection(route));
+    }, [route, scroll, fromHistory]);
+
+    // Keeps the URL on the section being read without adding a history entry for every scroll.
+    useEffect(() => {
+        const target = scrollTargetRef.current;
+        if (target && target.section !== activeSection && Date.now() < target.until) return;
+        scrollTargetRef.current = null;
+        if (route.name === 'section' && route.section !== activeSection) {
+            navigate({ name: 'section', section: activeSection }, { replace: true, scroll: false });
+        }
+    }, [activeSection]);
+
+    // Each section counts once per page load, however often the visitor scrolls past it.
+    const viewedSectionsRef = useRef(new Set<string>());
+    useEffect(() => {
+        if (viewedSectionsRef.current.has(activeSection)) return;
+        viewedSectionsRef.current.add(activeSection);
+        trackEvent({ type: 'section_view', detail: activeSection });
+    }, [activeSection]);
+
+    useEffect(() => {
+        if (route.name === 'resume') trackEvent({ type: 'resume_open' });
+    }, [route.name]);
+
+    const goToSection = (section: string) => navigate({ name: 'section', section });
+    const openResume = () => navigate({ name: 'resume' }, { scroll: false });
+
+    useEffect(() => {
+        if (!highlightedProject) return;
+        const timer = setTimeout(() => setHighlightedProject(null), 4000);
+        return () => clearTimeout(timer);
+    }, [highlightedProject]);
+
+    // Carries out an action requested by the assistant. Arguments come from the model, so each one is checked.
+    const handleToolCall = ({ name, args }: ToolCall) => {
+        const stringArg = (key: string) => (typeof args[key] === 'string' ? args[key] as string : undefined);
+        switch (name) {
+            case 'scrollToSection': {
+                const section = stringArg('section');
+                if (section && SITE_SECTIONS.includes(section)) goToSection(section);
+                break;
+            }
+            case 'openResume':
+                openResume();
+                break;
+            case 'highlightProject': {
+                const project = projectsData.find(p => p.title === stringArg('title'));
+                if (project) {
+                    setHighlightedProject(project.title);
+                    scrollToSection('projects');
+                }
+                break;
+            }
+            case 'prefillContactForm':
+                setContactDraft({ name: stringArg('name'), email: stringArg('email'), subject: stringArg('subject'), message: stringArg('message') });
+                goToSection('contact');
+                break;
+            default:
+                console.warn(`Ignoring unknown assistant action: ${name}`);
+        }
+    };
+
     return (
-        <div className={'antialiased font-sans text-light-text dark:text-dark-text bg-light-bg dark:bg-dark-bg'}>
-            <Header activeSection={activeSection} onNavClick={scrollToSection} theme={theme} toggleTheme={toggleTheme} />
+        <div className={'antialiased font-sans text-content bg-page'}>
+            <Header activeSection={activeSection} onNavClick={goToSection} theme={theme} />
             <main>
-                <Hero ref={sectionRefs.home} onContactClick={() => scrollToSection('contact')} />
+                <Hero ref={sectionRefs.home} onContactClick={() => goToSection('contact')} onViewResume={openResume} />
                 <About ref={sectionRefs.about} />
                 <Skills ref={sectionRefs.skills} />
-                <Projects ref={sectionRefs.projects} />
-                <Resume ref={sectionRefs.resume} />
-                <Contact ref={sectionRefs.contact} />
+                <Projects ref={sectionRefs.projects} highlightedProject={highlightedProject} onOpenProject={(slug) => navigate({ name: 'project', slug }, { scroll: false })} />
+                <Resume ref={sectionRefs.resume} onViewResume={openResume} />
+                <Contact ref={sectionRefs.contact} draft={contactDraft} />
             </main>
-            <Footer onNavClick={scrollToSection} />
-            <Chatbot />
-            <div className="watermark fixed bottom-5 right-5 font-mono text-xs text-light-text-secondary dark:text-dark-text-secondary opacity-50 z-50 pointer-events-none uppercase tracking-widest animate-glow dark:animate-dark-glow">
-                RAHUL POLIYATH
+            <Footer onNavClick={goToSection} />
+            <ResumeModal isOpen={route.name === 'resume'} onClose={() => close({ name: 'section', section: 'resume' })} />
+            <ProjectModal project={route.name === 'project' ? projectsData.find(p => p.slug === route.slug) ?? null : null} onClose={() => close({ name: 'section', section: 'projects' })} />
+            <Chatbot onToolCall={handleToolCall} activeSection={activeSection} />
+            <div className="watermark fixed bottom-5 right-5 font-mono text-xs text-content-secondary opacity-50 z-50 pointer-events-none uppercase tracking-widest animate-glow">
+                {portfolioProfile.name}
             </div>
         </div>
     );
@@ -0,0 +1,172 @@
+// Local knowledge base for the assistant: Markdown documents in knowledge/ plus the portfolio profile,
+// chunked by heading and ranked per question with BM25. Used by server.ts and by
+// scripts/build-knowledge-index.ts, which precomputes the index at build time.
+import { createHash } from 'node:crypto';
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { portfolioProfile, formatCompany, formatPeriod } from './shared.ts';
+import type { KnowledgeSource, PortfolioProfile } from './shared.ts';
+
+// --- BUNDLED CODE ---
+
+// knowledge/types.ts
+export interface KnowledgeChunk {
+    id: string;
+    document: string;
+    heading: string;
+    text: string;
+    length: number;
+    terms: Record<string, number>;
+}
+
+export interface KnowledgeIndex {
+    version: 1;
+    builtAt: string;
+    // Hash of the documents the index was built from, so a prebuilt index can be detected as stale.
+    sourceHash: string;
+    averageLength: number;
+    documentFrequency: Record<string, number>;
+    chunks: KnowledgeChunk[];
+}
+
+export interface KnowledgeMatch {
+    chunk: KnowledgeChunk;
+    score: number;
+}
+
+// knowledge/tokenize.ts
+const STOP_WORDS = new Set(['a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'did', 'do', 'does', 'for', 'from', 'has', 'have', 'he', 'his', 'how', 'i', 'in', 'is', 'it', 'me', 'of', 'on', 'or', 'tell', 'that', 'the', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'with', 'you', 'about']);
+
+// Keeps "+" and "#" so C++ and C# survive, and folds a trailing plural "s".
+export const tokenize = (text: string): string[] => (text.toLowerCase().match(/[a-z0-9+#]+/g) ?? [])
+    .filter(token => !STOP_WORDS.has(token))
+    .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+
+// knowledge/chunk.ts
+const MAX_CHUNK_CHARS = 900;
+
+// Splits a document at its headings, then packs paragraphs of long sections into chunks of bounded size.
+export const chunkMarkdown = (document: string, markdown: string): Omit<KnowledgeChunk, 'length' | 'terms'>[] => {
+    const sections: { heading: string; body: string[] }[] = [];
+    let current = { heading: document, body: [] as string[] };
+    for (const line of markdown.split(/\r?\n/)) {
+        const heading = line.match(/^#{1,6}\s+(.*)$/);
+        if (heading) {
+            if (current.body.join('').trim()) sections.push(current);
+            current = { heading: heading[1].trim(), body: [] };
+        } else {
+            current.body.push(line);
+        }
+    }
+    if (current.body.join('').trim()) sections.push(current);
+
+    return sections.flatMap(section => {
+        const paragraphs = section.body.join('\n').split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+        const packed: string[] = [];
+        for (const paragraph of paragraphs) {
+            const last = packed[packed.length - 1];
+            if (last !== undefined && last.length + paragraph.length < MAX_CHUNK_CHARS) {
+                packed[packed.length - 1] = `${last}\n\n${paragraph}`;
+            } else {
+                packed.push(paragraph);
+            }
+        }
+        return packed.map(text => ({ document, heading: section.heading, text }));
+    }).map((chunk, index) => ({ id: `${document}#${index}`, ...chunk }));
+};
+
+// knowledge/profileDocument.ts
+// The profile is always part of the knowledge base so its facts can be cited like any other document.
+export const profileToMarkdown = (profile: PortfolioProfile): string => [
+    `# About ${profile.name}`,
+    `${profile.name} is a ${profile.title}. ${profile.summary}`,
+    '## Skills',
+    ...profile.skills.map(group => `${group.title}: ${group.skills.join(', ')}.`),
+    '## Experience',
+    ...profile.experience.map(entry => `${entry.title} at ${formatCompany(entry)}, ${formatPeriod(entry)}. ${entry.description}`),
+    '## Projects',
+    ...profile.projects.map(project => [
+        `${project.title}: ${project.details ?? project.description}`,
+        project.role ? ` Role: ${project.role}.` : '',
+        project.tech.length ? ` Built with ${project.tech.join(', ')}.` : '',
+        project.outcomes?.length ? ` Outcomes: ${project.outcomes.join('; ')}.` : '',
+    ].join('')),
+    '## Education',
+    ...profile.education.map(entry => `${entry.degree}, ${entry.institution} (${entry.year}).`),
+].join('\n\n');
+
+// knowledge/index.ts
+export const hashKnowledgeDocuments = (documents: { name: string; markdown: string }[]): string => {
+    const hash = createHash('sha256');
+    documents.forEach(({ name, markdown }) => hash.update(`${name}\0${markdown}\0`));
+    return hash.digest('hex');
+};
+
+export const buildKnowledgeIndex = (documents: { name: string; markdown: string }[]): KnowledgeIndex => {
+    const chunks: KnowledgeChunk[] = documents.flatMap(({ name, markdown }) => chunkMarkdown(name, markdown)).map(chunk => {
+        const tokens = tokenize(`${chunk.heading} ${chunk.text}`);
+        const terms: Record<string, number> = {};
+        tokens.forEach(token => { terms[token] = (terms[token] ?? 0) + 1; });
+        return { ...chunk, length: tokens.length, terms };
+    });
+
+    const documentFrequency: Record<string, number> = {};
+    chunks.forEach(chunk => Object.keys(chunk.terms).forEach(term => { documentFrequency[term] = (documentFrequency[term] ?? 0) + 1; }));
+
+    return {
+        version: 1,
+        builtAt: new Date().toISOString(),
+        sourceHash: hashKnowledgeDocuments(documents),
+        averageLength: chunks.reduce((sum, chunk) => sum + chunk.length, 0) / Math.max(chunks.length, 1),
+        documentFrequency,
+        chunks,
+    };
+};
+
+// Reads every Markdown file in the directory (files starting with "_" or named README are notes, not knowledge).
+export const readKnowledgeDocuments = async (dir: string): Promise<{ name: string; markdown: string }[]> => {
+    const files = (await readdir(dir).catch(() => [] as string[]))
+        .filter(file => file.endsWith('.md') && !file.startsWith('_') && file.toLowerCase() !== 'readme.md')
+        .sort();
+    const documents = await Promise.all(files.map(async file => ({ name: file, markdown: await readFile(join(dir, file), 'utf8') })));
+    return [{ name: 'profile', markdown: profileToMarkdown(portfolioProfile) }, ...documents];
+};
+
+// knowledge/search.ts
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export const searchKnowledge = (index: KnowledgeIndex, query: string, { limit = 3, minScore = 1 }: { limit?: number; minScore?: number } = {}): KnowledgeMatch[] => {
+    const queryTerms = [...new Set(tokenize(query))];
+    const total = index.chunks.length;
+
+    return index.chunks
+        .map(chunk => {
+            const score = queryTerms.reduce((sum, term) => {
+                const frequency = chunk.terms[term];
+                if (!frequency) return sum;
+                const documentFrequency = index.documentFrequency[term] ?? 0;
+                const idf = Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+                const normalizedLength = 1 - BM25_B + BM25_B * (chunk.length / index.averageLength);
+                return sum + idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * normalizedLength);
+            }, 0);
+            return { chunk, score };
+        })
+        .filter(match => match.score >= minScore)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+};
+
+// knowledge/context.ts
+export const toKnowledgeSources = (matches: KnowledgeMatch[]): KnowledgeSource[] => matches.map(({ chunk }, index) => ({
+    id: index + 1,
+    document: chunk.document,
+    title: chunk.heading,
+    excerpt: chunk.text.length > 200 ? `${chunk.text.slice(0, 200)}…` : chunk.text,
+}));
+
+// Appended to the system instruction for a single request, so retrieved passages never pile up in the chat history.
+export const formatKnowledgeContext = (matches: KnowledgeMatch[]): string => (matches.length ? [
+    'Reference passages retrieved for the current question. When your answer uses one, cite it inline with its number, like [1]. Ignore passages that are not relevant, and never cite a number that is not listed here.',
+    ...matches.map(({ chunk }, index) => `[${index + 1}] ${chunk.document} > ${chunk.heading}\n${chunk.text}`),
+].join('\n\n') : '');
@@ -0,0 +1,14 @@
+// Precomputes the assistant's knowledge index from knowledge/*.md and the portfolio profile.
+// The server builds the same index in memory at startup when knowledge/index.json is missing or stale.
+//
+// Run with: node --experimental-strip-types scripts/build-knowledge-index.ts
+import { writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { buildKnowledgeIndex, readKnowledgeDocuments } from '../knowledge.ts';
+
+const knowledgeDir = process.env.KNOWLEDGE_DIR ?? 'knowledge';
+
+const documents = await readKnowledgeDocuments(knowledgeDir);
+const index = buildKnowledgeIndex(documents);
+await writeFile(join(knowledgeDir, 'index.json'), JSON.stringify(index));
+console.log(`Indexed ${index.chunks.length} chunks from ${documents.length} documents into ${join(knowledgeDir, 'index.json')}`);
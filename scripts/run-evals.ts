@@ -0,0 +1,102 @@
+// Plays the golden question set in evals.ts against a chat provider, scores the answers and compares
+// the run with the previous one. Exits with code 1 when a case that passed before now fails.
+//
+// Run with: node --experimental-strip-types scripts/run-evals.ts
+//
+//   CHAT_PROVIDER=gemini|openai|mock    provider and model settings, as for server.ts
+//   EVAL_MODE=live|record|replay        record saves every reply to EVAL_RECORDING; replay answers from it offline
+//   EVAL_RECORDING=path                 defaults to evals/recordings/<provider>.json
+//
+// Replay needs no API key. Without CHAT_PROVIDER it replays evals/recordings/mock.json, a recorded run
+// of the scripted mock committed with the repo, so `EVAL_MODE=replay` works on a fresh checkout. It
+// exercises the scoring and reporting, not the assistant: record a real provider to judge answers.
+//
+//   EVAL_MODE=replay node --experimental-strip-types scripts/run-evals.ts
+//   EVAL_BASELINE=path                  run to compare with; defaults to the previous evals/runs/latest.json
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { SYSTEM_INSTRUCTION, portfolioProfile, siteTools, createGeminiProvider, createOpenAICompatibleProvider, createMockProvider, buildMockScript, createRetryingProvider } from '../shared.ts';
+import type { ChatProvider, RetryPolicy } from '../shared.ts';
+import { buildKnowledgeIndex, readKnowledgeDocuments, searchKnowledge, formatKnowledgeContext } from '../knowledge.ts';
+import { GOLDEN_SET, runEvalCases, summarizeResults, formatRunReport, formatRunDiff, createRecordingProvider, createReplayProvider } from '../evals.ts';
+import type { EvalRecording, EvalRun } from '../evals.ts';
+
+const mode = process.env.EVAL_MODE === 'record' || process.env.EVAL_MODE === 'replay' ? process.env.EVAL_MODE : 'live';
+const providerName = process.env.CHAT_PROVIDER ?? (mode === 'replay' ? 'mock' : 'gemini');
+const model = process.env.CHAT_MODEL ?? 'gemini-2.5-flash';
+const apiKey = process.env.GEMINI_API_KEY ?? process.env.CHAT_API_KEY ?? process.env.API_KEY;
+const recordingPath = process.env.EVAL_RECORDING ?? join('evals', 'recordings', `${providerName}.json`);
+// The server's retry policy, so one slow or rate-limited request neither stalls the run nor fails a case.
+const retryPolicy: RetryPolicy = {
+    retries: Number(process.env.CHAT_RETRIES ?? 2),
+    baseDelayMs: 500,
+    maxDelayMs: 8000,
+    timeoutMs: Number(process.env.CHAT_TIMEOUT_MS ?? 20_000),
+};
+const runsDir = join('evals', 'runs');
+const latestPath = join(runsDir, 'latest.json');
+
+const readJson = async <T>(path: string): Promise<T | null> => {
+    try {
+        return JSON.parse(await readFile(path, 'utf8'));
+    } catch {
+        return null;
+    }
+};
+
+const createModelProvider = (): ChatProvider => {
+    switch (providerName) {
+        case 'openai':
+            return createOpenAICompatibleProvider({ baseUrl: process.env.CHAT_BASE_URL ?? 'http://localhost:11434/v1', apiKey, model, systemInstruction: SYSTEM_INSTRUCTION, tools: siteTools });
+        case 'mock':
+            return createMockProvider({ script: buildMockScript(portfolioProfile), fallback: "I'm running in offline mode and don't have a scripted answer for that.", chunkDelayMs: 0 });
+        default:
+            return createGeminiProvider({ apiKey, model, systemInstruction: SYSTEM_INSTRUCTION, tools: siteTools });
+    }
+};
+
+// Only successful replies reach the recording, so a request that still fails after its retries is
+// scored as a provider error rather than recorded as the golden reply.
+const createLiveProvider = (): ChatProvider => createRetryingProvider(createModelProvider(), retryPolicy, (error, attempt, delayMs) => {
+    console.warn(`Chat provider ${error.kind} error, retry ${attempt} in ${Math.round(delayMs)} ms:`, error.message);
+});
+
+const recording: EvalRecording = mode === 'replay'
+    ? await readJson<EvalRecording>(recordingPath) ?? (() => { throw new Error(`No recording at ${recordingPath}. Run with EVAL_MODE=record first.`); })()
+    : { provider: providerName, model, recordedAt: new Date().toISOString(), replies: {} };
+
+const provider = mode === 'replay' ? createReplayProvider(recording) : mode === 'record' ? createRecordingProvider(createLiveProvider(), recording) : createLiveProvider();
+
+// Same retrieval as the server, so the assistant is evaluated with the passages it would really see.
+const knowledgeIndex = buildKnowledgeIndex(await readKnowledgeDocuments(process.env.KNOWLEDGE_DIR ?? 'knowledge'));
+const context = (question: string) => formatKnowledgeContext(searchKnowledge(knowledgeIndex, question, { limit: 3 }));
+
+const startedAt = new Date().toISOString();
+const results = await runEvalCases(GOLDEN_SET, provider, { context });
+const run: EvalRun = {
+    startedAt,
+    provider: mode === 'replay' ? recording.provider : providerName,
+    model: mode === 'replay' ? recording.model : model,
+    mode,
+    results,
+    summary: summarizeResults(results),
+};
+
+if (mode === 'record') {
+    await mkdir(dirname(recordingPath), { recursive: true });
+    await writeFile(recordingPath, JSON.stringify(recording, null, 2));
+    console.log(`Recorded ${Object.keys(recording.replies).length} replies to ${recordingPath}\n`);
+}
+
+const baseline = await readJson<EvalRun>(process.env.EVAL_BASELINE ?? latestPath);
+await mkdir(runsDir, { recursive: true });
+await writeFile(join(runsDir, `${startedAt.replace(/[:.]/g, '-')}.json`), JSON.stringify(run, null, 2));
+await writeFile(latestPath, JSON.stringify(run, null, 2));
+
+console.log(formatRunReport(run));
+if (baseline) {
+    console.log(`\n${formatRunDiff(baseline, run)}`);
+    if (results.some(result => !result.passed && baseline.results.find(previous => previous.id === result.id)?.passed)) {
+        process.exitCode = 1;
+    }
+}
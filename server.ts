@@ -0,0 +1,1069 @@
+// Backend for the portfolio. The chat proxy owns the model API key and the system instruction, so
+// neither is shipped to the browser, and keeps one conversation per visitor session. The contact
+// endpoint stores messages and forwards them through a mail transport. The analytics endpoint keeps
+// daily counters and the text of the most common chatbot questions, never who asked them, and the
+// owner reads them, with the replies visitors rated down, on a password-protected dashboard. Chat
+// messages and replies pass through the guardrails in guardrails.ts.
+//
+// Run with: GEMINI_API_KEY=... npm start (node --experimental-strip-types server.ts, Node 22.6 or later)
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { hostname } from 'node:os';
+import { dirname, join } from 'node:path';
+import net from 'node:net';
+import tls from 'node:tls';
+import { SYSTEM_INSTRUCTION, MAX_CHAT_MESSAGE_CHARS, composeInstruction, parseAudienceMode, FOLLOW_UP_INSTRUCTION, buildFollowUpPrompt, parseFollowUps, TRANSCRIPT_SUMMARY_INSTRUCTION, MAX_TRANSCRIPT_SUMMARY_CHARS, MAX_TRANSCRIPT_TURNS, formatTranscript, CONVERSATION_MEMORY_INSTRUCTION, JOB_FIT_INSTRUCTION, MAX_JOB_DESCRIPTION_CHARS, analyzeJobFitLocally, parseJobFitReport, formatJobFitReport, summarizeTranscriptLocally, portfolioProfile, siteTools, validateContactSubmission, parseAnalyticsEvent, parseChatFeedback, createGeminiProvider, createOpenAICompatibleProvider, createMockProvider, buildMockScript, createRetryingProvider, createBudgetedProvider, toChatError, CHAT_ERROR_MESSAGES } from './shared.ts';
+import type { AnalyticsEvent, ChatError, ChatFeedback, ContextBudgetState, ChatErrorKind, ChatProvider, ChatTurn, ContactSubmission, ToolCall, ToolDeclaration } from './shared.ts';
+import { buildKnowledgeIndex, hashKnowledgeDocuments, readKnowledgeDocuments, searchKnowledge, toKnowledgeSources, formatKnowledgeContext } from './knowledge.ts';
+import type { KnowledgeIndex } from './knowledge.ts';
+import { createGuardrails, parseGuardrailAction, GUARDRAIL_ACTIONS, FACT_CHECK_ACTIONS } from './guardrails.ts';
+import type { FactIssue, InputVerdict } from './guardrails.ts';
+
+// --- BUNDLED CODE ---
+
+// server/config.ts
+const serverConfig = {
+    port: Number(process.env.PORT ?? 8787),
+    provider: process.env.CHAT_PROVIDER ?? 'gemini',
+    model: process.env.CHAT_MODEL ?? 'gemini-2.5-flash',
+    apiKey: process.env.GEMINI_API_KEY ?? process.env.CHAT_API_KEY ?? process.env.API_KEY,
+    baseUrl: process.env.CHAT_BASE_URL ?? 'http://localhost:11434/v1',
+    allowedOrigin: process.env.ALLOWED_ORIGIN,
+    // Only honour X-Forwarded-For when running behind a reverse proxy we control.
+    trustProxy: process.env.TRUST_PROXY === '1',
+    maxBodyBytes: Number(process.env.MAX_BODY_BYTES ?? 16 * 1024),
+    maxMessageChars: MAX_CHAT_MESSAGE_CHARS,
+    // History turns include the model's replies, which run much longer than a visitor's message.
+    maxTurnChars: 8000,
+    maxHistoryTurns: 50,
+    // Whole transcripts are posted for summarizing, so that route accepts larger bodies.
+    maxTranscriptBytes: Number(process.env.MAX_TRANSCRIPT_BYTES ?? 128 * 1024),
+    summaryTimeoutMs: Number(process.env.CHAT_SUMMARY_TIMEOUT_MS ?? 15_000),
+    jobFitTimeoutMs: Number(process.env.CHAT_JOB_FIT_TIMEOUT_MS ?? 30_000),
+    rateLimit: {
+        windowMs: Number(process.env.RATE_LIMIT_WINDOW_MS ?? 60_000),
+        max: Number(process.env.RATE_LIMIT_MAX ?? 20),
+    },
+    // Resets never reach the model, and edits and regenerates send one before each message.
+    resetRateLimit: {
+        windowMs: 60_000,
+        max: Number(process.env.RESET_RATE_LIMIT_MAX ?? 40),
+    },
+    // Retries of the model API for rate limits, network errors and timeouts.
+    retry: {
+        retries: Number(process.env.CHAT_RETRIES ?? 2),
+        baseDelayMs: 500,
+        maxDelayMs: 8000,
+        timeoutMs: Number(process.env.CHAT_TIMEOUT_MS ?? 20_000),
+    },
+    // Past this many history tokens, older turns are summarized and only the recent ones kept verbatim.
+    contextBudget: {
+        maxTokens: Number(process.env.CHAT_CONTEXT_BUDGET_TOKENS ?? 8000),
+        keepRecentTurns: Number(process.env.CHAT_KEEP_RECENT_TURNS ?? 6),
+        maxMemoryTokens: 500,
+    },
+    sessionTtlMs: 30 * 60_000,
+    // Signs the replies handed to the browser, which sends them back to re-seed a session. Without it a
+    // random key is used and conversations restored after a restart lose their context.
+    replySecret: process.env.CHAT_REPLY_SECRET,
+    maxSessions: 1000,
+    followUps: {
+        enabled: process.env.CHAT_FOLLOW_UPS !== '0',
+        timeoutMs: Number(process.env.CHAT_FOLLOW_UPS_TIMEOUT_MS ?? 8000),
+    },
+    knowledge: {
+        dir: process.env.KNOWLEDGE_DIR ?? 'knowledge',
+        topK: Number(process.env.KNOWLEDGE_TOP_K ?? 3),
+    },
+    contact: {
+        to: process.env.CONTACT_TO ?? portfolioProfile.contact.email,
+        from: process.env.CONTACT_FROM ?? `portfolio@${hostname()}`,
+        storePath: process.env.CONTACT_STORE_PATH ?? 'data/contact-messages.jsonl',
+        rateLimit: {
+            windowMs: Number(process.env.CONTACT_RATE_LIMIT_WINDOW_MS ?? 60 * 60_000),
+            max: Number(process.env.CONTACT_RATE_LIMIT_MAX ?? 5),
+        },
+    },
+    mail: {
+        // 'outbox' writes .eml files to disk instead of sending, for development and as a stand-in.
+        transport: process.env.MAIL_TRANSPORT ?? 'outbox',
+        outboxDir: process.env.MAIL_OUTBOX_DIR ?? 'data/outbox',
+        smtp: {
+            host: process.env.SMTP_HOST ?? 'localhost',
+            port: Number(process.env.SMTP_PORT ?? 465),
+            // Implicit TLS (port 465). Plain connections are only meant for a local relay.
+            secure: process.env.SMTP_SECURE !== '0',
+            user: process.env.SMTP_USER,
+            pass: process.env.SMTP_PASS,
+        },
+    },
+    guardrails: {
+        injection: parseGuardrailAction(process.env.GUARDRAIL_INJECTION, GUARDRAIL_ACTIONS, 'block'),
+        topics: parseGuardrailAction(process.env.GUARDRAIL_TOPICS, GUARDRAIL_ACTIONS, 'block'),
+        factCheck: parseGuardrailAction(process.env.GUARDRAIL_FACT_CHECK, FACT_CHECK_ACTIONS, 'flag'),
+        logPath: process.env.GUARDRAIL_LOG_PATH ?? 'data/guardrails.jsonl',
+    },
+    feedback: {
+        storePath: process.env.FEEDBACK_STORE_PATH ?? 'data/feedback.jsonl',
+        rateLimit: {
+            windowMs: 60_000,
+            max: Number(process.env.FEEDBACK_RATE_LIMIT_MAX ?? 30),
+        },
+    },
+    analytics: {
+        storePath: process.env.ANALYTICS_STORE_PATH ?? 'data/analytics.json',
+        // The dashboard is disabled until a password is set.
+        dashboardPassword: process.env.ANALYTICS_PASSWORD,
+        retentionDays: Number(process.env.ANALYTICS_RETENTION_DAYS ?? 180),
+        maxQuestions: 500,
+        flushIntervalMs: 10_000,
+        rateLimit: {
+            windowMs: 60_000,
+            max: Number(process.env.ANALYTICS_RATE_LIMIT_MAX ?? 120),
+        },
+        dashboardRateLimit: {
+            windowMs: 15 * 60_000,
+            max: 30,
+        },
+    },
+};
+
+const logRetry = (error: ChatError, attempt: number, delayMs: number) => {
+    console.warn(`Chat provider ${error.kind} error, retry ${attempt} in ${Math.round(delayMs)} ms:`, error.message);
+};
+
+const createChatProvider = ({ systemInstruction = SYSTEM_INSTRUCTION, tools = siteTools }: { systemInstruction?: string; tools?: ToolDeclaration[] } = {}): ChatProvider => {
+    switch (serverConfig.provider) {
+        case 'openai':
+            return createRetryingProvider(createOpenAICompatibleProvider({ baseUrl: serverConfig.baseUrl, apiKey: serverConfig.apiKey, model: serverConfig.model, systemInstruction, tools }), serverConfig.retry, logRetry);
+        case 'mock':
+            return createMockProvider({ script: buildMockScript(portfolioProfile), fallback: "I'm running in offline mode and don't have a scripted answer for that." });
+        default:
+            return createRetryingProvider(createGeminiProvider({ apiKey: serverConfig.apiKey, model: serverConfig.model, systemInstruction, tools }), serverConfig.retry, logRetry);
+    }
+};
+
+// server/http.ts
+class HttpError extends Error {
+    status: number;
+    headers: Record<string, string>;
+    details: Record<string, unknown>;
+
+    constructor(status: number, message: string, headers: Record<string, string> = {}, details: Record<string, unknown> = {}) {
+        super(message);
+        this.status = status;
+        this.headers = headers;
+        this.details = details;
+    }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<Record<string, unknown>> => new Promise((resolve, reject) => {
+    const declaredLength = Number(req.headers['content-length'] ?? 0);
+    if (declaredLength > maxBytes) {
+        reject(new HttpError(413, 'Request body is too large.'));
+        req.resume();
+        return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+            reject(new HttpError(413, 'Request body is too large.'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        try {
+            const body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+            if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+                throw new Error('Body must be a JSON object');
+            }
+            resolve(body);
+        } catch {
+            reject(new HttpError(400, 'Request body must be valid JSON.'));
+        }
+    });
+    req.on('error', reject);
+});
+
+const getClientIp = (req: IncomingMessage): string => {
+    const forwardedFor = req.headers['x-forwarded-for'];
+    if (serverConfig.trustProxy && typeof forwardedFor === 'string') {
+        return forwardedFor.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress ?? 'unknown';
+};
+
+// server/rateLimit.ts
+// Fixed-window counter per key. Windows are pruned lazily so memory stays bounded by active clients.
+const createRateLimiter = ({ windowMs, max }: { windowMs: number; max: number }) => {
+    const windows = new Map<string, { count: number; resetAt: number }>();
+
+    return {
+        check: (key: string): { allowed: boolean; retryAfterMs: number } => {
+            const now = Date.now();
+            for (const [existingKey, window] of windows) {
+                if (window.resetAt <= now) windows.delete(existingKey);
+            }
+
+            const window = windows.get(key) ?? { count: 0, resetAt: now + windowMs };
+            window.count += 1;
+            windows.set(key, window);
+            return { allowed: window.count <= max, retryAfterMs: window.resetAt - now };
+        },
+    };
+};
+
+// server/sessions.ts
+const createSessionStore = ({ ttlMs, maxSessions, createProvider }: { ttlMs: number; maxSessions: number; createProvider: () => ChatProvider }) => {
+    const sessions = new Map<string, { provider: ChatProvider; lastSeen: number }>();
+
+    const prune = () => {
+        const now = Date.now();
+        for (const [id, session] of sessions) {
+            if (now - session.lastSeen > ttlMs) sessions.delete(id);
+        }
+        // Map iteration order is insertion order, and get() re-inserts, so the first entries are the least recently used.
+        while (sessions.size >= maxSessions) {
+            const oldest = sessions.keys().next().value;
+            if (oldest === undefined) break;
+            sessions.delete(oldest);
+        }
+    };
+
+    const get = (sessionId: string): ChatProvider => {
+        const existing = sessions.get(sessionId);
+        if (existing) {
+            sessions.delete(sessionId);
+            sessions.set(sessionId, { provider: existing.provider, lastSeen: Date.now() });
+            return existing.provider;
+        }
+        prune();
+        const provider = createProvider();
+        sessions.set(sessionId, { provider, lastSeen: Date.now() });
+        return provider;
+    };
+
+    return { get };
+};
+
+// Replies go to the browser with an HMAC of their text. The browser keeps it with the turn, and a reset
+// only accepts model turns that carry a valid one, so no session state is needed to trust them.
+if (!serverConfig.replySecret) {
+    console.warn('CHAT_REPLY_SECRET is not set; restored conversations will lose their context after a restart.');
+}
+const replyKey = serverConfig.replySecret ?? randomBytes(32);
+
+const signReply = (text: string) => createHmac('sha256', replyKey).update(text).digest('base64url');
+
+const isSignedReply = (turn: ChatTurn) => turn.token !== undefined && safeEqual(turn.token, signReply(turn.text));
+
+// server/mail.ts
+interface MailMessage {
+    to: string;
+    from: string;
+    replyTo: string;
+    subject: string;
+    text: string;
+}
+
+interface MailTransport {
+    readonly name: string;
+    send: (mail: MailMessage) => Promise<void>;
+}
+
+// Strips line breaks so visitor input can never add headers, and RFC 2047-encodes non-ASCII text.
+const encodeHeader = (value: string) => {
+    const singleLine = value.replace(/[\r\n]+/g, ' ').trim();
+    return /^[\x20-\x7e]*$/.test(singleLine) ? singleLine : `=?UTF-8?B?${Buffer.from(singleLine, 'utf8').toString('base64')}?=`;
+};
+
+const formatMail = (mail: MailMessage) => [
+    `From: ${encodeHeader(`${portfolioProfile.name} Portfolio`)} <${mail.from}>`,
+    `To: <${mail.to}>`,
+    `Reply-To: <${encodeHeader(mail.replyTo)}>`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${hostname()}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    mail.text.replace(/\r?\n/g, '\r\n'),
+].join('\r\n');
+
+const createOutboxTransport = (outboxDir: string): MailTransport => ({
+    name: 'outbox',
+    send: async (mail) => {
+        await mkdir(outboxDir, { recursive: true });
+        await writeFile(join(outboxDir, `${Date.now()}-${randomUUID()}.eml`), formatMail(mail));
+    },
+});
+
+// Minimal SMTP dialogue: enough for AUTH LOGIN and a single plain-text message.
+const createSmtpSession = (socket: net.Socket) => {
+    let buffer = '';
+    let pending: { expected: number; resolve: () => void; reject: (error: Error) => void } | null = null;
+
+    // A reply is complete once its last line has a space after the status code ("250 OK").
+    const flush = () => {
+        const match = buffer.match(/(?:^|\r\n)(\d{3}) [^\r\n]*\r\n$/);
+        if (!match || !pending) return;
+        const { expected, resolve, reject } = pending;
+        const reply = buffer.trim();
+        pending = null;
+        buffer = '';
+        if (Number(match[1]) === expected) resolve();
+        else reject(new Error(`SMTP server replied "${reply}" (expected ${expected})`));
+    };
+
+    socket.setEncoding('utf8');
+    socket.setTimeout(15_000, () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        flush();
+    });
+    socket.on('error', (error) => pending?.reject(error));
+
+    const expect = (expected: number) => new Promise<void>((resolve, reject) => {
+        pending = { expected, resolve, reject };
+        flush();
+    });
+
+    return {
+        expect,
+        command: (line: string, expected: number) => {
+            const reply = expect(expected);
+            socket.write(`${line}\r\n`);
+            return reply;
+        },
+        close: () => socket.end(),
+    };
+};
+
+const createSmtpTransport = ({ host, port, secure, user, pass }: typeof serverConfig.mail.smtp): MailTransport => ({
+    name: 'smtp',
+    send: async (mail) => {
+        const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+        const session = createSmtpSession(socket);
+        const base64 = (value: string) => Buffer.from(value, 'utf8').toString('base64');
+        try {
+            await session.expect(220);
+            await session.command(`EHLO ${hostname()}`, 250);
+            if (user && pass) {
+                await session.command('AUTH LOGIN', 334);
+                await session.command(base64(user), 334);
+                await session.command(base64(pass), 235);
+            }
+            await session.command(`MAIL FROM:<${mail.from}>`, 250);
+            await session.command(`RCPT TO:<${mail.to}>`, 250);
+            await session.command('DATA', 354);
+            // Lines starting with a dot are escaped so they can't end the DATA section early.
+            await session.command(`${formatMail(mail).replace(/^\./gm, '..')}\r\n.`, 250);
+            await session.command('QUIT', 221);
+        } finally {
+            session.close();
+        }
+    },
+});
+
+const createMailTransport = (): MailTransport => (
+    serverConfig.mail.transport === 'smtp'
+        ? createSmtpTransport(serverConfig.mail.smtp)
+        : createOutboxTransport(serverConfig.mail.outboxDir)
+);
+
+// server/knowledge.ts
+// Prefers the index precomputed by scripts/build-knowledge-index.ts and falls back to indexing the documents
+// now, also when the profile or a document changed since the index was built.
+const loadKnowledgeIndex = async (): Promise<KnowledgeIndex> => {
+    const documents = await readKnowledgeDocuments(serverConfig.knowledge.dir);
+    let prebuilt: KnowledgeIndex;
+    try {
+        prebuilt = JSON.parse(await readFile(join(serverConfig.knowledge.dir, 'index.json'), 'utf8'));
+    } catch {
+        console.warn(`No prebuilt knowledge index in ${serverConfig.knowledge.dir}/; indexing documents at startup.`);
+        return buildKnowledgeIndex(documents);
+    }
+    if (prebuilt.sourceHash !== hashKnowledgeDocuments(documents)) {
+        console.warn(`The knowledge index in ${serverConfig.knowledge.dir}/ is out of date; indexing documents at startup. Run npm run build:knowledge to update it.`);
+        return buildKnowledgeIndex(documents);
+    }
+    return prebuilt;
+};
+
+const knowledgeIndex = await loadKnowledgeIndex();
+
+const retrieveKnowledge = (message: string) => {
+    const matches = searchKnowledge(knowledgeIndex, message, { limit: serverConfig.knowledge.topK });
+    return { context: formatKnowledgeContext(matches), sources: toKnowledgeSources(matches) };
+};
+
+// server/guardrails.ts
+const { logPath: guardrailLogPath, ...guardrailPolicy } = serverConfig.guardrails;
+const guardrails = createGuardrails(portfolioProfile, guardrailPolicy);
+
+// One JSON line per blocked, flagged or corrected exchange, for the owner to review and tune the policies.
+const logGuardrailEvent = async (entry: { stage: 'input'; verdict: InputVerdict; message: string } | { stage: 'output'; issues: FactIssue[]; message: string; reply: string }) => {
+    const record = { at: new Date().toISOString(), ...entry, message: entry.message.slice(0, 500), ...('reply' in entry ? { reply: entry.reply.slice(0, 2000) } : {}) };
+    try {
+        await mkdir(dirname(guardrailLogPath), { recursive: true });
+        await appendFile(guardrailLogPath, `${JSON.stringify(record)}\n`);
+    } catch (error) {
+        console.error('Could not write the guardrail log:', error);
+    }
+};
+
+// Keeps the session's history in line with what the visitor was shown after a correction.
+const replaceLastReply = (provider: ChatProvider, text: string) => {
+    const history = provider.history();
+    if (history[history.length - 1]?.role === 'model') {
+        provider.reset([...history.slice(0, -1), { role: 'model', text }]);
+    }
+};
+
+const checkReply = (provider: ChatProvider, message: string, reply: string) => {
+    const { issues, text } = guardrails.checkOutput(reply);
+    if (issues.length) {
+        logGuardrailEvent({ stage: 'output', issues, message, reply });
+        replaceLastReply(provider, text);
+    }
+    return text;
+};
+
+// server/analytics.ts
+// Aggregates only: a counter per day and event (and per detail, such as the section viewed), plus a
+// capped table of normalised chatbot questions. No IPs, cookies or visitor ids are ever stored.
+interface AnalyticsData {
+    version: 1;
+    days: Record<string, Record<string, number>>;
+    questions: Record<string, { count: number; lastAskedAt: string }>;
+}
+
+interface AnalyticsSummary {
+    days: string[];
+    series: Record<string, number[]>;
+    totals: Record<string, number>;
+    topQuestions: { text: string; count: number; lastAskedAt: string }[];
+}
+
+// Folds trivial variations together and masks anything that looks like contact details.
+const normalizeQuestion = (question: string) => question
+    .toLowerCase()
+    .replace(/[^\s@]+@[^\s@]+\.[^\s@]+/g, '[email]')
+    .replace(/\+?\d[\d\s().-]{6,}\d/g, '[number]')
+    .replace(/\s+/g, ' ')
+    .replace(/[\s?!.]+$/, '')
+    .trim();
+
+const dayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+const createAnalyticsStore = async ({ storePath, retentionDays, maxQuestions, flushIntervalMs }: typeof serverConfig.analytics) => {
+    const emptyData = (): AnalyticsData => ({ version: 1, days: {}, questions: {} });
+    let data: AnalyticsData = await readFile(storePath, 'utf8').then(text => JSON.parse(text) as AnalyticsData).catch(() => emptyData());
+    let isDirty = false;
+
+    const prune = () => {
+        const oldest = dayKey(new Date(Date.now() - retentionDays * 86_400_000));
+        for (const day of Object.keys(data.days)) {
+            if (day < oldest) delete data.days[day];
+        }
+        const questions = Object.entries(data.questions);
+        if (questions.length > maxQuestions) {
+            questions.sort(([, a], [, b]) => b.count - a.count || b.lastAskedAt.localeCompare(a.lastAskedAt));
+            data.questions = Object.fromEntries(questions.slice(0, maxQuestions));
+        }
+    };
+
+    // Written to a temporary file and renamed, so a crash mid-write never leaves a truncated store.
+    const flush = async () => {
+        if (!isDirty) return;
+        isDirty = false;
+        prune();
+        await mkdir(dirname(storePath), { recursive: true });
+        await writeFile(`${storePath}.tmp`, JSON.stringify(data));
+        await rename(`${storePath}.tmp`, storePath);
+    };
+
+    setInterval(() => flush().catch(error => console.error('Failed to write analytics:', error)), flushIntervalMs).unref();
+
+    return {
+        record: (event: AnalyticsEvent) => {
+            const now = new Date();
+            const counters = (data.days[dayKey(now)] ??= {});
+            counters[event.type] = (counters[event.type] ?? 0) + 1;
+            if (event.type === 'chat_question' && event.detail) {
+                const question = normalizeQuestion(event.detail);
+                if (question) {
+                    const entry = (data.questions[question] ??= { count: 0, lastAskedAt: now.toISOString() });
+                    entry.count += 1;
+                    entry.lastAskedAt = now.toISOString();
+                }
+            } else if (event.detail) {
+                const key = `${event.type}:${event.detail}`;
+                counters[key] = (counters[key] ?? 0) + 1;
+            }
+            isDirty = true;
+        },
+        summary: (dayCount: number, topQuestionCount = 20): AnalyticsSummary => {
+            const days = Array.from({ length: dayCount }, (_, index) => dayKey(new Date(Date.now() - (dayCount - 1 - index) * 86_400_000)));
+            const series: Record<string, number[]> = {};
+            days.forEach((day, index) => {
+                Object.entries(data.days[day] ?? {}).forEach(([key, count]) => {
+                    (series[key] ??= new Array(dayCount).fill(0))[index] = count;
+                });
+            });
+            const totals = Object.fromEntries(Object.entries(series).map(([key, counts]) => [key, counts.reduce((sum, count) => sum + count, 0)]));
+            const topQuestions = Object.entries(data.questions)
+                .map(([text, entry]) => ({ text, ...entry }))
+                .sort((a, b) => b.count - a.count || b.lastAskedAt.localeCompare(a.lastAskedAt))
+                .slice(0, topQuestionCount);
+            return { days, series, totals, topQuestions };
+        },
+        flush,
+    };
+};
+
+const analyticsStore = await createAnalyticsStore(serverConfig.analytics);
+
+// server/routes/chat.ts
+const rateLimiter = createRateLimiter(serverConfig.rateLimit);
+const resetRateLimiter = createRateLimiter(serverConfig.resetRateLimit);
+
+// One-shot request on a fresh provider, like the follow-ups. The mock has no model to ask, so the
+// budgeted provider falls back to its local summary.
+const summarizeOlderTurns = serverConfig.provider === 'mock' ? undefined : (transcript: string, signal?: AbortSignal) => {
+    const provider = createChatProvider({ systemInstruction: CONVERSATION_MEMORY_INSTRUCTION, tools: [] });
+    return provider.send(transcript, { signal: AbortSignal.any([...(signal ? [signal] : []), AbortSignal.timeout(serverConfig.summaryTimeoutMs)]) });
+};
+
+const sessionStore = createSessionStore({
+    ttlMs: serverConfig.sessionTtlMs,
+    maxSessions: serverConfig.maxSessions,
+    createProvider: () => createBudgetedProvider(createChatProvider(), serverConfig.contextBudget, summarizeOlderTurns),
+});
+
+// One-shot request on a fresh provider so the suggestions never enter the visitor's conversation.
+// Failures only cost the suggestions, never the reply.
+const generateFollowUps = async (message: string, reply: string, signal?: AbortSignal): Promise<string[]> => {
+    if (!serverConfig.followUps.enabled || !reply.trim() || serverConfig.provider === 'mock') return [];
+    try {
+        const provider = createChatProvider({ systemInstruction: FOLLOW_UP_INSTRUCTION, tools: [] });
+        const text = await provider.send(buildFollowUpPrompt(message, reply), { signal: AbortSignal.any([...(signal ? [signal] : []), AbortSignal.timeout(serverConfig.followUps.timeoutMs)]) });
+        return parseFollowUps(text);
+    } catch (error) {
+        console.warn('Could not generate follow-up questions:', error);
+        return [];
+    }
+};
+
+const parseSessionId = (value: unknown): string => {
+    if (typeof value !== 'string' || !/^[\w-]{8,64}$/.test(value)) {
+        throw new HttpError(400, 'A valid sessionId is required.');
+    }
+    return value;
+};
+
+const parseMessage = (value: unknown): string => {
+    if (typeof value !== 'string' || !value.trim()) {
+        throw new HttpError(400, 'Message must be a non-empty string.');
+    }
+    if (value.length > serverConfig.maxMessageChars) {
+        throw new HttpError(400, `Message must be at most ${serverConfig.maxMessageChars} characters.`);
+    }
+    return value;
+};
+
+const parseHistory = (value: unknown, maxTurns = serverConfig.maxHistoryTurns * 2): ChatTurn[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value) || value.length > maxTurns) {
+        throw new HttpError(400, 'History must be an array of recent turns.');
+    }
+    return value.map((turn): ChatTurn => {
+        if ((turn?.role !== 'user' && turn?.role !== 'model') || typeof turn.text !== 'string' || turn.text.length > serverConfig.maxTurnChars) {
+            throw new HttpError(400, 'History contains an invalid turn.');
+        }
+        return { role: turn.role, text: turn.text, ...(typeof turn.token === 'string' ? { token: turn.token } : {}) };
+    });
+};
+
+// The kind tells the browser which message to show and whether retrying makes sense; details stay in the log.
+const CHAT_ERROR_STATUS: Record<ChatErrorKind, number> = { config: 503, 'rate-limited': 429, network: 502, safety: 422, timeout: 504, unknown: 502 };
+
+const describeChatError = (error: ChatError) => ({
+    error: CHAT_ERROR_MESSAGES[error.kind],
+    kind: error.kind,
+    ...(error.retryAfterMs ? { retryAfterMs: error.retryAfterMs } : {}),
+});
+
+const handleChat = async (req: IncomingMessage, res: ServerResponse) => {
+    const body = await readJsonBody(req, serverConfig.maxBodyBytes);
+    const sessionId = parseSessionId(body.sessionId);
+    const message = parseMessage(body.message);
+    const provider = sessionStore.get(sessionId);
+
+    // Blocked messages never reach the model or the session history.
+    const verdict = guardrails.screenInput(message);
+    if (verdict.action !== 'allow') {
+        logGuardrailEvent({ stage: 'input', verdict, message });
+    }
+    if (verdict.action === 'block') {
+        const reply = verdict.reply ?? '';
+        if (body.stream) {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+            res.end(`data: ${JSON.stringify({ text: reply })}\n\ndata: [DONE]\n\n`);
+        } else {
+            sendJson(res, 200, { reply, toolCalls: [], sources: [], followUps: [] });
+        }
+        return;
+    }
+
+    const knowledge = retrieveKnowledge(message);
+    const { sources } = knowledge;
+    const context = composeInstruction(knowledge.context, verdict.context);
+    // The provider adds the audience layer between its base instruction and this context.
+    const audience = parseAudienceMode(body.audience);
+
+    if (!body.stream) {
+        const toolCalls: ToolCall[] = [];
+        let followUps: string[] = [];
+        let budget: ContextBudgetState | undefined;
+        let reply: string;
+        try {
+            reply = checkReply(provider, message, await provider.send(message, {
+                context,
+                audience,
+                onToolCall: call => toolCalls.push(call),
+                onFollowUps: (questions) => {
+                    followUps = questions;
+                },
+                onBudget: (state) => {
+                    budget = state;
+                },
+            }));
+        } catch (error) {
+            const chatError = toChatError(error);
+            console.error(`Chat provider (${provider.name}) ${chatError.kind} error:`, error);
+            const { error: visitorMessage, ...details } = describeChatError(chatError);
+            throw new HttpError(CHAT_ERROR_STATUS[chatError.kind], visitorMessage, chatError.retryAfterMs ? { 'Retry-After': String(Math.ceil(chatError.retryAfterMs / 1000)) } : {}, details);
+        }
+        if (!followUps.length) followUps = await generateFollowUps(message, reply);
+        sendJson(res, 200, { reply, token: signReply(reply), toolCalls, sources, followUps, budget });
+        return;
+    }
+
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+    });
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+    });
+
+    if (sources.length) {
+        res.write(`data: ${JSON.stringify({ sources })}\n\n`);
+    }
+
+    let sentLength = 0;
+    let followUps: string[] = [];
+    try {
+        const reply = await provider.stream(message, {
+            signal: controller.signal,
+            context,
+            audience,
+            onChunk: (textSoFar) => {
+                // Each chunk signs the whole reply so far, so a reply the visitor stops still re-seeds.
+                res.write(`data: ${JSON.stringify({ text: textSoFar.slice(sentLength), token: signReply(textSoFar) })}\n\n`);
+                sentLength = textSoFar.length;
+            },
+            onToolCall: (toolCall) => {
+                res.write(`data: ${JSON.stringify({ toolCall })}\n\n`);
+            },
+            onFollowUps: (questions) => {
+                followUps = questions;
+            },
+            onBudget: (budget) => {
+                res.write(`data: ${JSON.stringify({ budget })}\n\n`);
+            },
+        });
+        if (!controller.signal.aborted) {
+            // The reply has already been streamed, so a correction replaces it as a whole.
+            const checked = checkReply(provider, message, reply);
+            if (checked !== reply) res.write(`data: ${JSON.stringify({ replace: checked, token: signReply(checked) })}\n\n`);
+            if (!followUps.length) followUps = await generateFollowUps(message, checked, controller.signal);
+            if (followUps.length) res.write(`data: ${JSON.stringify({ followUps })}\n\n`);
+        }
+        res.write('data: [DONE]\n\n');
+    } catch (error) {
+        const chatError = toChatError(error);
+        console.error(`Chat provider (${provider.name}) ${chatError.kind} error:`, error);
+        res.write(`data: ${JSON.stringify(describeChatError(chatError))}\n\n`);
+    }
+    res.end();
+};
+
+// The browser re-seeds the session after an edit, a regenerate or a reload, but it is not trusted with
+// what the model said: an exchange is kept only when its question passes the guardrails and its reply
+// carries this server's signature. Dropping whole exchanges keeps the history alternating.
+const screenHistory = (turns: ChatTurn[]): ChatTurn[] => {
+    const screened: ChatTurn[] = [];
+    for (let index = 0; index < turns.length; index += 2) {
+        const [question, reply] = [turns[index], turns[index + 1]];
+        if (question.role !== 'user' || reply?.role !== 'model' || !isSignedReply(reply)) continue;
+        const verdict = guardrails.screenInput(question.text);
+        if (verdict.action === 'block') {
+            logGuardrailEvent({ stage: 'input', verdict, message: question.text });
+            continue;
+        }
+        screened.push({ role: 'user', text: question.text }, { role: 'model', text: reply.text });
+    }
+    return screened;
+};
+
+const handleReset = async (req: IncomingMessage, res: ServerResponse) => {
+    const body = await readJsonBody(req, serverConfig.maxBodyBytes * 4);
+    const sessionId = parseSessionId(body.sessionId);
+    sessionStore.get(sessionId).reset(screenHistory(parseHistory(body.history)));
+    res.writeHead(204).end();
+};
+
+// The summary is only a draft: the visitor reviews it before it is sent through /api/contact, so a
+// local fallback is better than an error when the model is unavailable.
+const handleSummary = async (req: IncomingMessage, res: ServerResponse) => {
+    const body = await readJsonBody(req, serverConfig.maxTranscriptBytes);
+    const turns = parseHistory(body.transcript, MAX_TRANSCRIPT_TURNS);
+    if (!turns.some(turn => turn.role === 'user')) {
+        throw new HttpError(400, 'The transcript must contain at least one question.');
+    }
+
+    let summary = '';
+    if (serverConfig.provider !== 'mock') {
+        try {
+            const provider = createChatProvider({ systemInstruction: TRANSCRIPT_SUMMARY_INSTRUCTION, tools: [] });
+            summary = (await provider.send(formatTranscript(turns), { signal: AbortSignal.timeout(serverConfig.summaryTimeoutMs) })).trim();
+        } catch (error) {
+            console.warn('Could not summarize transcript, using the local summary:', error);
+        }
+    }
+    sendJson(res, 200, { summary: (summary || summarizeTranscriptLocally(turns)).slice(0, MAX_TRANSCRIPT_SUMMARY_CHARS) });
+};
+
+// Like the summary, the fit report falls back to the local analysis rather than failing: the local one
+// is less nuanced but never wrong about the profile.
+const handleJobFit = async (req: IncomingMessage, res: ServerResponse) => {
+    const body = await readJsonBody(req, serverConfig.maxTranscriptBytes);
+    const jobDescription = typeof body.jobDescription === 'string' ? body.jobDescription.trim() : '';
+    if (!jobDescription || jobDescription.length > MAX_JOB_DESCRIPTION_CHARS) {
+        throw new HttpError(400, `The job description must be between 1 and ${MAX_JOB_DESCRIPTION_CHARS} characters.`);
+    }
+
+    let report = null;
+    if (serverConfig.provider !== 'mock') {
+        try {
+            const provider = createChatProvider({ systemInstruction: JOB_FIT_INSTRUCTION, tools: [] });
+            const text = await provider.send(`Job description:\n\n${jobDescription}`, { signal: AbortSignal.timeout(serverConfig.jobFitTimeoutMs) });
+            report = parseJobFitReport(text, portfolioProfile);
+            if (!report) console.warn('The model did not return a usable fit report, using the local analysis.');
+        } catch (error) {
+            console.warn('Could not analyze the job description, using the local analysis:', error);
+        }
+    }
+    report ??= analyzeJobFitLocally(portfolioProfile, jobDescription);
+    // The browser adds the report to the conversation, so it is signed like a chat reply.
+    sendJson(res, 200, { report, token: signReply(formatJobFitReport(report)) });
+};
+
+// server/routes/contact.ts
+const contactRateLimiter = createRateLimiter(serverConfig.contact.rateLimit);
+const mailTransport = createMailTransport();
+
+const handleContact = async (req: IncomingMessage, res: ServerResponse) => {
+    const body = await readJsonBody(req, serverConfig.maxBodyBytes);
+
+    // Bots fill in every field they find, including the hidden "website" honeypot. Report success so they don't adapt.
+    if (typeof body.website === 'string' && body.website) {
+        sendJson(res, 202, { ok: true });
+        return;
+    }
+
+    const fieldErrors = validateContactSubmission(body);
+    if (Object.keys(fieldErrors).length) {
+        throw new HttpError(422, 'Please fix the highlighted fields.', {}, { fieldErrors });
+    }
+
+    const submission: ContactSubmission = {
+        name: String(body.name).trim(),
+        email: String(body.email).trim(),
+        subject: String(body.subject).trim(),
+        message: String(body.message).trim(),
+    };
+    const record = { id: randomUUID(), receivedAt: new Date().toISOString(), ...submission };
+
+    // Store first so a mail outage never loses a message.
+    await mkdir(dirname(serverConfig.contact.storePath), { recursive: true });
+    await appendFile(serverConfig.contact.storePath, `${JSON.stringify(record)}\n`);
+
+    try {
+        await mailTransport.send({
+            to: serverConfig.contact.to,
+            from: serverConfig.contact.from,
+            replyTo: submission.email,
+            subject: `[Portfolio] ${submission.subject}`,
+            text: `${submission.message}\n\n-- \n${submission.name} <${submission.email}>\nReceived ${record.receivedAt} (id ${record.id})`,
+        });
+    } catch (error) {
+        console.error(`Stored contact message ${record.id} but the ${mailTransport.name} transport failed to forward it:`, error);
+    }
+
+    sendJson(res, 201, { ok: true, id: record.id });
+};
+
+// server/routes/feedback.ts
+const feedbackRateLimiter = createRateLimiter(serverConfig.feedback.rateLimit);
+
+type FeedbackRecord = ChatFeedback & { id: string; receivedAt: string; sessionId: string };
+
+const handleFeedback = async (req: IncomingMessage, res: ServerResponse) => {
+    const body = await readJsonBody(req, serverConfig.maxBodyBytes * 4);
+    const sessionId = parseSessionId(body.sessionId);
+    const feedback = parseChatFeedback(body);
+    if (!feedback) {
+        throw new HttpError(400, 'Feedback needs a message id and a rating of up or down.');
+    }
+    const record: FeedbackRecord = { id: randomUUID(), receivedAt: new Date().toISOString(), sessionId, ...feedback };
+    await mkdir(dirname(serverConfig.feedback.storePath), { recursive: true });
+    await appendFile(serverConfig.feedback.storePath, `${JSON.stringify(record)}\n`);
+    res.writeHead(204).end();
+};
+
+// The latest record per message wins, so a changed rating or an added comment replaces the first one.
+// Message ids are only unique within a visitor's session.
+const readFeedback = async (): Promise<FeedbackRecord[]> => {
+    let text: string;
+    try {
+        text = await readFile(serverConfig.feedback.storePath, 'utf8');
+    } catch {
+        return [];
+    }
+    const latest = new Map<string, FeedbackRecord>();
+    for (const line of text.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            const record: FeedbackRecord = JSON.parse(line);
+            const key = `${record.sessionId}:${record.messageId}`;
+            latest.delete(key);
+            latest.set(key, record);
+        } catch {
+            console.warn('Skipping a malformed feedback record.');
+        }
+    }
+    return [...latest.values()];
+};
+
+// server/routes/analytics.ts
+const analyticsRateLimiter = createRateLimiter(serverConfig.analytics.rateLimit);
+const dashboardRateLimiter = createRateLimiter(serverConfig.analytics.dashboardRateLimit);
+
+// Do Not Track and Global Privacy Control are honoured here too, in case a client ignores them.
+const hasOptedOut = (req: IncomingMessage) => req.headers.dnt === '1' || req.headers['sec-gpc'] === '1';
+
+const handleAnalyticsEvent = async (req: IncomingMessage, res: ServerResponse) => {
+    const body = await readJsonBody(req, serverConfig.maxBodyBytes);
+    const event = parseAnalyticsEvent(body);
+    if (!event) {
+        throw new HttpError(400, 'Unknown analytics event.');
+    }
+    if (!hasOptedOut(req)) analyticsStore.record(event);
+    res.writeHead(204).end();
+};
+
+const safeEqual = (a: string, b: string) => {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+};
+
+// HTTP Basic auth against ANALYTICS_PASSWORD; any user name is accepted.
+const requireOwner = (req: IncomingMessage) => {
+    const password = serverConfig.analytics.dashboardPassword;
+    if (!password) {
+        throw new HttpError(404, 'Not found.');
+    }
+    const [scheme, encoded] = (req.headers.authorization ?? '').split(' ');
+    const supplied = scheme === 'Basic' && encoded ? Buffer.from(encoded, 'base64').toString('utf8').split(':').slice(1).join(':') : '';
+    if (!safeEqual(supplied, password)) {
+        throw new HttpError(401, 'The dashboard needs the owner password.', { 'WWW-Authenticate': 'Basic realm="Portfolio analytics", charset="UTF-8"' });
+    }
+};
+
+const parseDayCount = (req: IncomingMessage) => {
+    const days = Number(new URL(req.url ?? '/', 'http://localhost').searchParams.get('days') ?? 30);
+    return Number.isInteger(days) && days >= 1 && days <= serverConfig.analytics.retentionDays ? days : 30;
+};
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const EVENT_LABELS: Record<string, string> = {
+    section_view: 'Section views',
+    resume_open: 'Resume opened',
+    resume_download: 'Resume downloads',
+    contact_submit: 'Contact form submissions',
+    chat_question: 'Chatbot questions',
+    chat_error: 'Chatbot failures',
+};
+
+const renderBars = (counts: number[]) => {
+    const max = Math.max(...counts, 1);
+    const width = counts.length * 6;
+    return `<svg viewBox="0 0 ${width} 40" width="${width * 2}" height="40" preserveAspectRatio="none" role="img" aria-label="Daily counts">${counts
+        .map((count, index) => `<rect x="${index * 6}" y="${40 - (count / max) * 40}" width="5" height="${(count / max) * 40}"><title>${count}</title></rect>`)
+        .join('')}</svg>`;
+};
+
+const renderBreakdown = (summary: AnalyticsSummary, type: string) => {
+    const rows = Object.entries(summary.totals)
+        .filter(([key]) => key.startsWith(`${type}:`))
+        .sort(([, a], [, b]) => b - a)
+        .map(([key, total]) => `<tr><td>${escapeHtml(key.slice(type.length + 1))}</td><td class="num">${total}</td></tr>`);
+    return rows.length ? `<table>${rows.join('')}</table>` : '';
+};
+
+const renderFeedback = (feedback: FeedbackRecord[], limit = 20) => {
+    const down = feedback.filter(record => record.rating === 'down');
+    const rows = down.slice(-limit).reverse().map(record => `<tr><td><strong>${escapeHtml(record.question || '(no question)')}</strong><br>${escapeHtml(record.reply.slice(0, 500))}${record.comment ? `<br><em>${escapeHtml(record.comment)}</em>` : ''}</td><td class="num">${record.receivedAt.slice(0, 10)}</td></tr>`);
+    return `<p class="muted">${feedback.length - down.length} rated up, ${down.length} rated down. Newest first.</p>
+${rows.length ? `<table>${rows.join('')}</table>` : '<p class="muted">No replies rated down.</p>'}`;
+};
+
+const renderDashboard = (summary: AnalyticsSummary, feedback: FeedbackRecord[]) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta name="robots" content="noindex">
+<title>Portfolio analytics</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; padding: 0 1rem; color: #13343B; background: #FCFCF9; }
+h1 { margin-bottom: 0.25rem; }
+.muted { color: #626C71; }
+.grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(280px, 1fr)); gap: 1rem; }
+.card { background: #fff; border: 1px solid rgba(94, 82, 64, 0.2); border-radius: 8px; padding: 1rem; }
+.card h2 { font-size: 1rem; margin: 0 0 0.5rem; }
+.total { font-size: 2rem; font-weight: 700; color: #21808D; }
+svg rect { fill: #21808D; }
+table { width: 100%; border-collapse: collapse; margin-top: 0.5rem; font-size: 0.9rem; }
+td { padding: 0.25rem 0; border-bottom: 1px solid rgba(94, 82, 64, 0.12); }
+.num { text-align: right; font-variant-numeric: tabular-nums; }
+</style>
+</head>
+<body>
+<h1>Portfolio analytics</h1>
+<p class="muted">Last ${summary.days.length} days (${summary.days[0]} to ${summary.days[summary.days.length - 1]}). Show <a href="?days=7">7</a> · <a href="?days=30">30</a> · <a href="?days=90">90</a> days.</p>
+<div class="grid">
+${Object.entries(EVENT_LABELS).map(([type, label]) => `<section class="card">
+<h2>${label}</h2>
+<div class="total">${summary.totals[type] ?? 0}</div>
+${renderBars(summary.series[type] ?? new Array(summary.days.length).fill(0))}
+${renderBreakdown(summary, type)}
+</section>`).join('\n')}
+</div>
+<section class="card" style="margin-top: 1rem">
+<h2>Most common chatbot questions</h2>
+${summary.topQuestions.length ? `<table>${summary.topQuestions.map(question => `<tr><td>${escapeHtml(question.text)}</td><td class="num">${question.count}</td></tr>`).join('')}</table>` : '<p class="muted">No questions yet.</p>'}
+</section>
+<section class="card" style="margin-top: 1rem">
+<h2>Replies rated down</h2>
+${renderFeedback(feedback)}
+</section>
+</body>
+</html>`;
+
+const handleAnalyticsSummary = async (req: IncomingMessage, res: ServerResponse) => {
+    requireOwner(req);
+    sendJson(res, 200, analyticsStore.summary(parseDayCount(req)), { 'Cache-Control': 'no-store' });
+};
+
+const handleAnalyticsDashboard = async (req: IncomingMessage, res: ServerResponse) => {
+    requireOwner(req);
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store', 'X-Frame-Options': 'DENY' });
+    res.end(renderDashboard(analyticsStore.summary(parseDayCount(req)), await readFeedback()));
+};
+
+interface Route {
+    handler: (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+    rateLimiter: ReturnType<typeof createRateLimiter>;
+    rateLimitMessage: string;
+}
+
+const routes: Record<string, Route> = {
+    'POST /api/chat': { handler: handleChat, rateLimiter, rateLimitMessage: 'Too many messages. Please wait a moment and try again.' },
+    'POST /api/chat/reset': { handler: handleReset, rateLimiter: resetRateLimiter, rateLimitMessage: 'Too many messages. Please wait a moment and try again.' },
+    'POST /api/chat/summary': { handler: handleSummary, rateLimiter, rateLimitMessage: 'Too many messages. Please wait a moment and try again.' },
+    'POST /api/chat/fit': { handler: handleJobFit, rateLimiter, rateLimitMessage: 'Too many messages. Please wait a moment and try again.' },
+    'POST /api/contact': { handler: handleContact, rateLimiter: contactRateLimiter, rateLimitMessage: "You've sent several messages recently. Please try again later." },
+    'POST /api/feedback': { handler: handleFeedback, rateLimiter: feedbackRateLimiter, rateLimitMessage: 'Too much feedback at once. Please try again later.' },
+    'POST /api/analytics': { handler: handleAnalyticsEvent, rateLimiter: analyticsRateLimiter, rateLimitMessage: 'Too many events.' },
+    'GET /api/analytics/summary': { handler: handleAnalyticsSummary, rateLimiter: dashboardRateLimiter, rateLimitMessage: 'Too many attempts. Please try again later.' },
+    'GET /api/analytics/dashboard': { handler: handleAnalyticsDashboard, rateLimiter: dashboardRateLimiter, rateLimitMessage: 'Too many attempts. Please try again later.' },
+};
+
+// server/index.ts
+const server = createServer(async (req, res) => {
+    if (serverConfig.allowedOrigin) {
+        res.setHeader('Access-Control-Allow-Origin', serverConfig.allowedOrigin);
+        res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, DNT');
+    }
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204).end();
+        return;
+    }
+
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const route = routes[`${req.method} ${path}`];
+    try {
+        if (!route) {
+            throw new HttpError(404, 'Not found.');
+        }
+        const limit = route.rateLimiter.check(getClientIp(req));
+        if (!limit.allowed) {
+            throw new HttpError(429, route.rateLimitMessage, { 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) });
+        }
+        await route.handler(req, res);
+    } catch (error) {
+        if (res.headersSent) {
+            res.end();
+            return;
+        }
+        if (error instanceof HttpError) {
+            sendJson(res, error.status, { error: error.message, ...error.details }, error.headers);
+            return;
+        }
+        console.error('Unhandled server error:', error);
+        sendJson(res, 500, { error: 'Something went wrong on our side.' });
+    }
+});
+
+// Keep the last few seconds of analytics when the process is stopped.
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+        analyticsStore.flush().catch(error => console.error('Failed to write analytics:', error)).finally(() => process.exit(0));
+    });
+}
+
+server.listen(serverConfig.port, () => {
+    console.log(`Portfolio server listening on http://localhost:${serverConfig.port} (chat: ${serverConfig.provider}, mail: ${mailTransport.name}, knowledge: ${knowledgeIndex.chunks.length} chunks)`);
+});
@@ -0,0 +1,208 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    analyzeJobFitLocally, backoffDelay, chatErrorFromStatus, ChatNetworkError, ChatSafetyError, createBudgetedProvider,
+    createRetryingProvider, parseJobFitReport, portfolioProfile, toChatError,
+} from './shared.ts';
+import type { ChatError, ChatProvider, ChatTurn } from './shared.ts';
+
+const MEMORY_PREFIX = '[Summary of our earlier conversation]';
+
+// Answers every message with "ok" and keeps the history like a real provider.
+const createFakeProvider = (history: ChatTurn[]): ChatProvider => {
+    let turns = history;
+    const send = async (message: string) => {
+        turns = [...turns, { role: 'user', text: message }, { role: 'model', text: 'ok' }];
+        return 'ok';
+    };
+    return { name: 'fake', send, stream: message => send(message), reset: (next = []) => { turns = next; }, history: () => turns };
+};
+
+const exchanges = (count: number, size = 40): ChatTurn[] => Array.from({ length: count }, (_, index): ChatTurn[] => [
+    { role: 'user', text: `Question ${index} ${'q'.repeat(size)}` },
+    { role: 'model', text: `Answer ${index} ${'a'.repeat(size)}` },
+]).flat();
+
+test('compact summarizes older turns once the history is over budget', async () => {
+    const inner = createFakeProvider(exchanges(6));
+    await createBudgetedProvider(inner, { maxTokens: 100, keepRecentTurns: 4 }).send('Next question');
+    const history = inner.history();
+    assert.ok(history[0].text.startsWith(MEMORY_PREFIX));
+    assert.match(history[0].text, /- Question 0/);
+    assert.equal(history[1].role, 'model');
+    assert.deepEqual(history.slice(2, 6).map(turn => turn.text.split(' ').slice(0, 2).join(' ')), ['Question 4', 'Answer 4', 'Question 5', 'Answer 5']);
+});
+
+test('compact leaves a history within budget alone', async () => {
+    const inner = createFakeProvider(exchanges(2));
+    await createBudgetedProvider(inner, { maxTokens: 1000 }).send('Next question');
+    assert.equal(inner.history().length, 6);
+    assert.ok(!inner.history()[0].text.startsWith(MEMORY_PREFIX));
+});
+
+test('compact keeps the history alternating when the cut lands on a model turn', async () => {
+    const inner = createFakeProvider(exchanges(6));
+    await createBudgetedProvider(inner, { maxTokens: 100, keepRecentTurns: 3 }).send('Next question');
+    const roles = inner.history().map(turn => turn.role);
+    assert.ok(roles.every((role, index) => role === (index % 2 ? 'model' : 'user')));
+    assert.match(inner.history()[2].text, /^Question 5/);
+});
+
+test('compact merges an existing memory into the new one', async () => {
+    const inner = createFakeProvider([
+        { role: 'user', text: `${MEMORY_PREFIX}\nThe visitor asked the assistant:\n- Earliest question` },
+        { role: 'model', text: "Thanks, I'll keep that in mind." },
+        ...exchanges(6),
+    ]);
+    await createBudgetedProvider(inner, { maxTokens: 100, keepRecentTurns: 2 }).send('Next question');
+    const [memory] = inner.history();
+    assert.equal(memory.text.split(MEMORY_PREFIX).length, 2);
+    assert.match(memory.text, /- Earliest question\n- Question 0/);
+    assert.equal(memory.text.match(/The visitor asked the assistant:/g)?.length, 1);
+});
+
+test('compact drops the oldest questions whole when the memory is over its budget', async () => {
+    const inner = createFakeProvider(exchanges(12, 120));
+    await createBudgetedProvider(inner, { maxTokens: 100, keepRecentTurns: 2, maxMemoryTokens: 150 }).send('Next question');
+    const lines = inner.history()[0].text.split('\n');
+    assert.ok(lines.join('\n').length <= MEMORY_PREFIX.length + 1 + 600);
+    assert.equal(lines[1], 'The visitor asked the assistant:');
+    assert.ok(lines.slice(2).every(line => /^- Question \d+ q+$/.test(line)));
+    assert.match(lines[lines.length - 1], /^- Question 10 /);
+    assert.ok(!lines.some(line => line.startsWith('- Question 0 ')));
+});
+
+test('parseJobFitReport rejects replies that are not a usable report', () => {
+    assert.equal(parseJobFitReport('Sorry, I cannot help with that.', portfolioProfile), null);
+    assert.equal(parseJobFitReport('{"summary": "Missing the intro"', portfolioProfile), null);
+    assert.equal(parseJobFitReport('{"summary": "No intro", "introMessage": " "}', portfolioProfile), null);
+});
+
+test('parseJobFitReport keeps only what the profile shows, named as in the profile', () => {
+    const report = parseJobFitReport(`Here is the report:
+\`\`\`json
+{
+  "role": "Frontend Engineer",
+  "summary": "A good match.",
+  "matchedSkills": ["react", "Node.js", "Haskell"],
+  "gaps": ["Kubernetes", "React"],
+  "experience": [{ "index": 0, "reason": "Support work." }, { "index": 99, "reason": "Made up." }],
+  "projects": [{ "slug": "real-time-chat-app", "reason": "Uses React." }, { "slug": "made-up", "reason": "Made up." }],
+  "introMessage": "Hi Rahul, let's talk."
+}
+\`\`\``, portfolioProfile);
+    assert.ok(report);
+    assert.deepEqual(report.matchedSkills.map(({ skill }) => skill), ['React.js', 'Node.js']);
+    assert.deepEqual(report.gaps, ['Kubernetes']);
+    assert.equal(report.coverage, 2 / 3);
+    assert.deepEqual(report.experience.map(({ reason }) => reason), ['Support work.']);
+    assert.deepEqual(report.projects, [{ slug: 'real-time-chat-app', title: 'Real-time Chat App', reason: 'Uses React.' }]);
+    assert.equal(report.introMessage, "Hi Rahul, let's talk.");
+});
+
+test('analyzeJobFitLocally matches profile skills and lists the missing ones as gaps', () => {
+    const report = analyzeJobFitLocally(portfolioProfile, 'Job title: Senior Frontend Engineer\nWe use React, Node.js, TypeScript and Kubernetes.');
+    assert.equal(report.role, 'Senior Frontend Engineer');
+    assert.ok(report.matchedSkills.some(({ skill }) => skill === 'React.js'));
+    assert.ok(report.matchedSkills.some(({ skill }) => skill === 'Node.js'));
+    assert.deepEqual(report.gaps, ['TypeScript', 'Kubernetes']);
+    assert.equal(report.projects[0]?.slug, 'real-time-chat-app');
+    assert.match(report.introMessage, /a Senior Frontend Engineer position/);
+});
+
+test('analyzeJobFitLocally falls back to experience when no technologies are named', () => {
+    const report = analyzeJobFitLocally(portfolioProfile, 'We are a friendly team looking for someone curious.');
+    assert.equal(report.role, '');
+    assert.equal(report.coverage, 0);
+    assert.deepEqual(report.gaps, []);
+    assert.match(report.summary, /doesn't name specific technologies/);
+});
+
+test('chatErrorFromStatus classifies HTTP failures', () => {
+    assert.equal(chatErrorFromStatus(401, 'bad key').kind, 'config');
+    assert.equal(chatErrorFromStatus(404, 'no model').kind, 'config');
+    const limited = chatErrorFromStatus(429, 'slow down', '3');
+    assert.equal(limited.kind, 'rate-limited');
+    assert.equal(limited.retryAfterMs, 3000);
+    assert.equal(chatErrorFromStatus(429, 'slow down', 'soon').retryAfterMs, undefined);
+    assert.equal(chatErrorFromStatus(504, 'gateway').kind, 'timeout');
+    assert.equal(chatErrorFromStatus(503, 'unavailable').kind, 'network');
+    assert.equal(chatErrorFromStatus(400, 'bad request').kind, 'unknown');
+    assert.equal(chatErrorFromStatus(400, 'bad request').retriable, false);
+});
+
+test('toChatError classifies thrown errors and keeps ChatErrors as they are', () => {
+    const safety = new ChatSafetyError('blocked');
+    assert.equal(toChatError(safety), safety);
+    assert.equal(toChatError(Object.assign(new Error('quota'), { status: 429 })).kind, 'rate-limited');
+    assert.equal(toChatError(new DOMException('too slow', 'TimeoutError')).kind, 'timeout');
+    assert.equal(toChatError(new Error('API key not valid')).kind, 'config');
+    assert.equal(toChatError(new TypeError('fetch failed')).kind, 'network');
+    assert.equal(toChatError(new Error('read ECONNRESET')).retriable, true);
+    assert.equal(toChatError('something odd').kind, 'unknown');
+});
+
+test('backoffDelay stays below the exponential cap', (context) => {
+    const policy = { baseDelayMs: 100, maxDelayMs: 1000 };
+    context.mock.method(Math, 'random', () => 0.999);
+    assert.ok(backoffDelay(0, policy) < 100);
+    assert.ok(backoffDelay(2, policy) < 400 && backoffDelay(2, policy) > 390);
+    assert.ok(backoffDelay(10, policy) < 1000);
+    context.mock.method(Math, 'random', () => 0);
+    assert.equal(backoffDelay(3, policy), 0);
+});
+
+// Fails with the given errors in turn, then answers "ok".
+const createFailingProvider = (errors: unknown[]): ChatProvider & { calls: () => number } => {
+    let calls = 0;
+    const send = async () => {
+        const error = errors[calls++];
+        if (error) throw error;
+        return 'ok';
+    };
+    return { name: 'failing', send, stream: send, reset: () => {}, history: () => [], calls: () => calls };
+};
+
+test('createRetryingProvider retries retriable errors and gives up on the others', async () => {
+    const retries: number[] = [];
+    const flaky = createFailingProvider([new ChatNetworkError('down'), new TypeError('fetch failed')]);
+    assert.equal(await createRetryingProvider(flaky, { baseDelayMs: 1 }, (_, attempt) => retries.push(attempt)).send('Hi'), 'ok');
+    assert.equal(flaky.calls(), 3);
+    assert.deepEqual(retries, [1, 2]);
+
+    const refused = createFailingProvider([new ChatSafetyError('blocked')]);
+    await assert.rejects(createRetryingProvider(refused, { baseDelayMs: 1 }).send('Hi'), { kind: 'safety' });
+    assert.equal(refused.calls(), 1);
+
+    const down = createFailingProvider([new Error('socket hang up'), new Error('socket hang up'), new Error('socket hang up')]);
+    await assert.rejects(createRetryingProvider(down, { retries: 2, baseDelayMs: 1 }).send('Hi'), (error: ChatError) => error.kind === 'network');
+    assert.equal(down.calls(), 3);
+});
+
+test('createRetryingProvider does not restart a stream that has shown output', async () => {
+    let calls = 0;
+    const inner: ChatProvider = {
+        name: 'streaming',
+        send: async () => 'ok',
+        stream: async (_, { onChunk }) => {
+            calls++;
+            onChunk('Partial');
+            throw new ChatNetworkError('dropped');
+        },
+        reset: () => {},
+        history: () => [],
+    };
+    await assert.rejects(createRetryingProvider(inner, { baseDelayMs: 1 }).stream('Hi', { onChunk: () => {} }), { kind: 'network' });
+    assert.equal(calls, 1);
+});
+
+test('createRetryingProvider times out an attempt that makes no progress', async () => {
+    const inner: ChatProvider = {
+        name: 'stuck',
+        send: (_, options) => new Promise(resolve => options?.signal?.addEventListener('abort', () => resolve(''))),
+        stream: async () => '',
+        reset: () => {},
+        history: () => [],
+    };
+    await assert.rejects(createRetryingProvider(inner, { retries: 0, timeoutMs: 20 }).send('Hi'), { kind: 'timeout' });
+});